@@ -0,0 +1,394 @@
+/**
+ * Tool-calling agent for SwitchX SDK
+ * Runs chatWithAI in a loop, executing the tools the model asks for and feeding the results back
+ */
+
+import { TOOL_NAME } from './ai';
+import { createAbortError } from './http';
+import { SwitchXValidationError } from './errors';
+import type { SwitchXCore } from './index';
+import type {
+  AIChatMessage,
+  AIChatOptions,
+  AIChatResponse,
+  AIToolCall,
+  AIToolDefinition,
+  AIUsage,
+  JSONSchema,
+  RequestOptions
+} from '../types';
+
+/**
+ * What a tool's execute function receives besides its arguments
+ */
+export interface AgentToolContext {
+  client: SwitchXCore;
+  /** Call being answered */
+  call: AIToolCall;
+  /** Step the call was requested in, starting at 1 */
+  step: number;
+  /** The run's signal - pass it on to SDK calls */
+  signal?: AbortSignal;
+}
+
+/**
+ * Tool the agent can call
+ * The result is sent to the model as JSON (strings as they are); throwing sends the error message instead
+ */
+export interface AgentTool<Args = any> extends AIToolDefinition {
+  execute(args: Args, context: AgentToolContext): unknown | Promise<unknown>;
+}
+
+/**
+ * One executed tool call
+ */
+export interface AgentToolResult {
+  call: AIToolCall;
+  /** Value returned by the tool (undefined when it failed) */
+  result?: unknown;
+  /** Why the call failed: unknown tool, invalid arguments, the error the tool threw, or the budget ran out */
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * One model turn and the tool calls it led to
+ */
+export interface AgentStep {
+  /** Starting at 1 */
+  step: number;
+  response: AIChatResponse;
+  /** Empty when the model answered; on the last step of a max_steps run, every call fails as not run */
+  toolResults: AgentToolResult[];
+}
+
+/**
+ * Outcome of a run
+ * - answer: the model replied without asking for a tool
+ * - max_steps: the step budget ran out while the model still wanted tools
+ */
+export type AgentStopReason = 'answer' | 'max_steps';
+
+export interface AgentRunResult {
+  /** Final answer (on max_steps, whatever text the last turn had) */
+  text: string;
+  stopReason: AgentStopReason;
+  /** Full trace, one entry per model turn */
+  steps: AgentStep[];
+  /**
+   * Conversation sent to the model, including tool calls and results - pass it to the next run to continue
+   * Every tool call has a tool message, including calls left unrun on max_steps
+   */
+  messages: AIChatMessage[];
+  /** Tokens used across all steps */
+  usage: AIUsage;
+}
+
+export interface AgentOptions {
+  /** System prompt added in front of every run */
+  system?: string;
+  tools?: AgentTool[];
+  /**
+   * Most model turns per run
+   * Default: 5
+   */
+  maxSteps?: number;
+  /** Model, temperature and other chat settings */
+  chat?: Omit<AIChatOptions, 'tools'>;
+  /**
+   * Longest tool result sent to the model, in characters (longer results are cut)
+   * Default: 8000
+   */
+  maxResultLength?: number;
+  /** Called after every step, e.g. to show progress */
+  onStep?(step: AgentStep): void;
+}
+
+const DEFAULT_MAX_STEPS = 5;
+const DEFAULT_MAX_RESULT_LENGTH = 8000;
+
+// Error recorded for calls requested on the last allowed step
+const BUDGET_EXHAUSTED = 'Not run: the step budget ran out';
+
+const SCHEMA_TYPES: Record<string, (value: unknown) => boolean> = {
+  object: (value) => typeof value === 'object' && value !== null && !Array.isArray(value),
+  array: Array.isArray,
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number' && Number.isFinite(value),
+  integer: Number.isInteger,
+  boolean: (value) => typeof value === 'boolean',
+  null: (value) => value === null
+};
+
+/**
+ * Check a value against the type, required, enum, properties and items keywords of a schema
+ * @returns A description of the first mismatch, or undefined if the value fits
+ */
+export function checkArguments(schema: JSONSchema, value: unknown, path = 'arguments'): string | undefined {
+  if (schema.type && !SCHEMA_TYPES[schema.type]?.(value)) {
+    return `${path} must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${path} must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`;
+  }
+
+  if (SCHEMA_TYPES.object(value)) {
+    const record = value as Record<string, unknown>;
+    const missing = schema.required?.find((name) => record[name] === undefined);
+    if (missing) {
+      return `${path}.${missing} is required`;
+    }
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      if (record[name] === undefined) continue;
+      const problem = checkArguments(property, record[name], `${path}.${name}`);
+      if (problem) return problem;
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let index = 0; index < value.length; index++) {
+      const problem = checkArguments(schema.items, value[index], `${path}[${index}]`);
+      if (problem) return problem;
+    }
+  }
+
+  return undefined;
+}
+
+function addUsage(total: AIUsage, usage: AIUsage | null): void {
+  if (!usage) return;
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+  if (usage.thinkingTokens !== undefined) {
+    total.thinkingTokens = (total.thinkingTokens ?? 0) + usage.thinkingTokens;
+  }
+}
+
+/**
+ * Agent that answers with the help of tools
+ * Each run alternates model turns and tool calls until the model answers or maxSteps turns have been used
+ *
+ * @example
+ * const agent = client.agent({
+ *   system: 'You help moderators of this community.',
+ *   tools: sdkTools(client, { communityId })
+ * });
+ * const { text, steps } = await agent.run('Who talked about the release yesterday?');
+ */
+export class SwitchXAgent {
+  private readonly tools = new Map<string, AgentTool>();
+  private readonly maxSteps: number;
+  private readonly maxResultLength: number;
+
+  /**
+   * @param client - Client used for chat requests and passed to tools
+   * @param options - System prompt, tools, step budget and chat settings
+   * @throws SwitchXValidationError for an invalid step budget or tool
+   */
+  constructor(readonly client: SwitchXCore, private readonly options: AgentOptions = {}) {
+    const { maxSteps = DEFAULT_MAX_STEPS, maxResultLength = DEFAULT_MAX_RESULT_LENGTH } = options;
+    if (!(Number.isInteger(maxSteps) && maxSteps > 0)) {
+      throw new SwitchXValidationError(`maxSteps must be a positive integer, got ${maxSteps}`);
+    }
+    if (!(Number.isInteger(maxResultLength) && maxResultLength > 0)) {
+      throw new SwitchXValidationError(`maxResultLength must be a positive integer, got ${maxResultLength}`);
+    }
+    this.maxSteps = maxSteps;
+    this.maxResultLength = maxResultLength;
+    options.tools?.forEach((tool) => this.tool(tool));
+  }
+
+  /**
+   * Register a tool
+   * @throws SwitchXValidationError for an invalid or duplicate name, or parameters that are not an object schema
+   */
+  tool<Args = any>(tool: AgentTool<Args>): this {
+    if (!TOOL_NAME.test(tool.name ?? '')) {
+      throw new SwitchXValidationError(`Invalid tool name "${tool.name}": use up to 64 letters, digits, underscores or dashes`);
+    }
+    if (this.tools.has(tool.name)) {
+      throw new SwitchXValidationError(`Tool "${tool.name}" is already registered`);
+    }
+    if (tool.parameters?.type !== 'object') {
+      throw new SwitchXValidationError(`Tool "${tool.name}" parameters must be an object schema`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  /**
+   * Run the agent on a prompt or a conversation
+   * Tool failures are reported to the model rather than thrown; aborting the signal stops the run
+   * @param input - User prompt, or messages (e.g. the messages of a previous run plus a new user message)
+   * @param requestOptions - Optional signal, timeout and retry settings for each chat request
+   */
+  async run(input: string | AIChatMessage[], requestOptions?: RequestOptions): Promise<AgentRunResult> {
+    const messages: AIChatMessage[] = typeof input === 'string' ? [{ role: 'user', content: input }] : [...input];
+    if (this.options.system && messages[0]?.role !== 'system') {
+      messages.unshift({ role: 'system', content: this.options.system });
+    }
+
+    const definitions = [...this.tools.values()].map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters
+    }));
+    const steps: AgentStep[] = [];
+    const usage: AIUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    for (let step = 1; step <= this.maxSteps; step++) {
+      const response = await this.client.chatWithAI(
+        messages,
+        { ...this.options.chat, tools: definitions.length ? definitions : undefined },
+        requestOptions
+      );
+      addUsage(usage, response.usage);
+
+      const current: AgentStep = { step, response, toolResults: [] };
+      steps.push(current);
+
+      if (response.toolCalls.length === 0) {
+        messages.push({ role: 'assistant', content: response.text });
+        this.options.onStep?.(current);
+        return { text: response.text, stopReason: 'answer', steps, messages, usage };
+      }
+
+      messages.push({
+        role: 'assistant',
+        content: response.text,
+        tool_calls: response.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments)
+          }
+        }))
+      });
+
+      // Calls from the last turn would never be seen by the model, but each still needs a tool message
+      current.toolResults = step < this.maxSteps
+        ? await Promise.all(response.toolCalls.map((call) => this.callTool(call, step, requestOptions?.signal)))
+        : response.toolCalls.map((call) => ({ call, error: BUDGET_EXHAUSTED, durationMs: 0 }));
+      for (const toolResult of current.toolResults) {
+        messages.push({
+          role: 'tool',
+          tool_call_id: toolResult.call.id,
+          name: toolResult.call.name,
+          content: this.serialize(toolResult)
+        });
+      }
+
+      this.options.onStep?.(current);
+    }
+
+    const last = steps[steps.length - 1];
+    return { text: last.response.text, stopReason: 'max_steps', steps, messages, usage };
+  }
+
+  /**
+   * Run one tool call, turning failures into an error result
+   */
+  private async callTool(call: AIToolCall, step: number, signal?: AbortSignal): Promise<AgentToolResult> {
+    const started = Date.now();
+    const finish = (outcome: { result?: unknown; error?: string }): AgentToolResult =>
+      ({ call, ...outcome, durationMs: Date.now() - started });
+
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return finish({ error: `Unknown tool "${call.name}"` });
+    }
+    if (typeof call.arguments === 'string') {
+      return finish({ error: 'Arguments are not valid JSON' });
+    }
+    const problem = checkArguments(tool.parameters, call.arguments);
+    if (problem) {
+      return finish({ error: problem });
+    }
+
+    try {
+      const result = await tool.execute(call.arguments, { client: this.client, call, step, signal });
+      return finish({ result });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createAbortError(signal);
+      }
+      return finish({ error: (error as Error)?.message || String(error) });
+    }
+  }
+
+  /**
+   * Tool message content: the error, the string result, or the result as JSON, cut to maxResultLength
+   */
+  private serialize({ result, error }: AgentToolResult): string {
+    const content = error !== undefined
+      ? JSON.stringify({ error })
+      : typeof result === 'string' ? result : JSON.stringify(result ?? null);
+    return content.length > this.maxResultLength
+      ? `${content.slice(0, this.maxResultLength)}... [truncated]`
+      : content;
+  }
+}
+
+/**
+ * Ready-made tools wrapping read-only SDK calls
+ * search_messages, get_members, get_channels and get_user
+ * @param client - Client the tools call
+ * @param options.communityId - Community the tools look in; when omitted the model may pass one (default: the client's community)
+ */
+export function sdkTools(client: SwitchXCore, options: { communityId?: string } = {}): AgentTool[] {
+  const communityProperty: Record<string, JSONSchema> = options.communityId
+    ? {}
+    : { communityId: { type: 'string', description: 'Community ID (defaults to the current community)' } };
+  const communityId = (args: { communityId?: string }) => options.communityId ?? args.communityId;
+
+  return [
+    {
+      name: 'search_messages',
+      description: 'Search community messages by text. Returns message ID, author user ID, date and text.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Text to search for' },
+          limit: { type: 'integer', description: 'Most results to return, 1 to 50 (default 20)' },
+          ...communityProperty
+        },
+        required: ['query']
+      },
+      execute: async (args: { query: string; limit?: number; communityId?: string }, { signal }) => {
+        const limit = Math.min(Math.max(args.limit ?? 20, 1), 50);
+        const messages = await client.searchMessages(args.query, communityId(args), { limit }, { signal });
+        return messages.map(({ id, userId, sentDate, message }) => ({ id, userId, sentDate, message }));
+      }
+    },
+    {
+      name: 'get_members',
+      description: 'List the members of the community with their user ID and name.',
+      parameters: { type: 'object', properties: { ...communityProperty } },
+      execute: async (args: { communityId?: string }, { signal }) => {
+        const members = await client.getMembers(communityId(args), { signal });
+        return members.map(({ userId, name, bot }) => ({ userId, name, bot }));
+      }
+    },
+    {
+      name: 'get_channels',
+      description: 'List the channels of the community with their ID and name.',
+      parameters: { type: 'object', properties: { ...communityProperty } },
+      execute: async (args: { communityId?: string }, { signal }) => {
+        const channels = await client.getChannels(communityId(args), { signal });
+        return channels.map(({ id, name }) => ({ id, name }));
+      }
+    },
+    {
+      name: 'get_user',
+      description: 'Get the profile of a user: name, username, bio and whether they are a bot.',
+      parameters: {
+        type: 'object',
+        properties: { userId: { type: 'string', description: 'User ID' } },
+        required: ['userId']
+      },
+      execute: (args: { userId: string }, { signal }) => client.getUser(args.userId, { signal })
+    }
+  ];
+}
@@ -0,0 +1,445 @@
+/**
+ * AI helpers for SwitchX SDK
+ * Validates AI options, reads chat, tool call and image payloads (OpenAI- and Gemini-style) and streams chat as text deltas
+ */
+
+import { createAbortError } from './http';
+import { parseEventStream } from './sse';
+import { SwitchXError, SwitchXNetworkError, SwitchXValidationError } from './errors';
+import type {
+  AIChatOptions,
+  AIChatResponse,
+  AIImage,
+  AIImageOptions,
+  AIImageResponse,
+  AIModel,
+  AIToolCall,
+  AIUsage
+} from '../types';
+
+/**
+ * Models known to chatWithAI and streamChatWithAI (others are passed through with a warning)
+ */
+export const AI_MODELS: readonly AIModel[] = [
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite',
+  'gemini-2.5-pro',
+  'gemini-2.0-flash'
+];
+
+// Function names accepted by OpenAI- and Gemini-style tool calling
+export const TOOL_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Unknown models already warned about
+const warnedModels = new Set<string>();
+
+/**
+ * Throw SwitchXValidationError for chat options the service would reject (unknown models only warn)
+ */
+export function validateChatOptions(options: AIChatOptions = {}): void {
+  const { model, temperature, max_tokens, thinking_budget } = options;
+
+  // The service may support models this SDK version doesn't list yet
+  if (model !== undefined && !AI_MODELS.includes(model as AIModel) && !warnedModels.has(model)) {
+    warnedModels.add(model);
+    console.warn(`[SwitchX] Unknown AI model "${model}" - known models: ${AI_MODELS.join(', ')}`);
+  }
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+    throw new SwitchXValidationError(`temperature must be between 0 and 2, got ${temperature}`);
+  }
+  if (max_tokens !== undefined && !(Number.isInteger(max_tokens) && max_tokens > 0)) {
+    throw new SwitchXValidationError(`max_tokens must be a positive integer, got ${max_tokens}`);
+  }
+  if (thinking_budget !== undefined && !(Number.isInteger(thinking_budget) && thinking_budget >= 0)) {
+    throw new SwitchXValidationError(`thinking_budget must be a non-negative integer, got ${thinking_budget}`);
+  }
+
+  const names = new Set<string>();
+  for (const tool of options.tools ?? []) {
+    if (!TOOL_NAME.test(tool?.name ?? '')) {
+      throw new SwitchXValidationError(`Invalid tool name "${tool?.name}": use up to 64 letters, digits, underscores or dashes`);
+    }
+    if (names.has(tool.name)) {
+      throw new SwitchXValidationError(`Duplicate tool name "${tool.name}"`);
+    }
+    if (tool.parameters?.type !== 'object') {
+      throw new SwitchXValidationError(`Tool "${tool.name}" parameters must be an object schema`);
+    }
+    names.add(tool.name);
+  }
+}
+
+/**
+ * Throw SwitchXValidationError for image requests the service would reject
+ */
+export function validateImageOptions(prompt: string, options: AIImageOptions = {}): void {
+  if (!prompt?.trim()) {
+    throw new SwitchXValidationError('Image prompt is required');
+  }
+
+  const modalities = options.response_modalities;
+  if (modalities !== undefined) {
+    if (modalities.length === 0 || modalities.some((modality) => modality !== 'TEXT' && modality !== 'IMAGE')) {
+      throw new SwitchXValidationError(`response_modalities must be a non-empty list of 'TEXT' and 'IMAGE'`);
+    }
+  }
+
+  options.images_base64?.forEach((image, index) => {
+    if (!image?.data) {
+      throw new SwitchXValidationError(`images_base64[${index}].data is required`);
+    }
+  });
+}
+
+/**
+ * Tool call as it appears in a payload or stream chunk
+ * OpenAI streams send the arguments string in pieces, keyed by index
+ */
+export interface ToolCallPart {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments: string | Record<string, unknown>;
+}
+
+/**
+ * Fields of one completion payload or stream chunk
+ */
+export interface ChatChunk {
+  text: string;
+  thinking: string;
+  role?: string;
+  finishReason?: string;
+  usage?: AIUsage;
+  toolCalls?: ToolCallPart[];
+}
+
+/**
+ * Fold streamed tool call parts into the parts collected so far
+ * String arguments are pieces of one call; object arguments (Gemini) are whole calls
+ */
+export function mergeToolCallParts(into: Map<number, ToolCallPart>, parts: ToolCallPart[]): void {
+  for (const part of parts) {
+    if (typeof part.arguments !== 'string') {
+      const index = into.size ? Math.max(...into.keys()) + 1 : 0;
+      into.set(index, { ...part, index });
+      continue;
+    }
+    const current = into.get(part.index);
+    if (!current) {
+      into.set(part.index, { ...part });
+      continue;
+    }
+    if (part.id) current.id = part.id;
+    if (part.name) current.name = part.name;
+    current.arguments = typeof current.arguments === 'string' ? current.arguments + part.arguments : part.arguments;
+  }
+}
+
+/**
+ * Complete tool calls from collected parts, parsing JSON arguments
+ * Calls without an ID (Gemini) get `call_<index>`
+ */
+export function toToolCalls(parts: Iterable<ToolCallPart>): AIToolCall[] {
+  return [...parts]
+    .filter((part) => part.name)
+    .sort((a, b) => a.index - b.index)
+    .map((part) => {
+      let args: unknown = part.arguments;
+      if (typeof args === 'string') {
+        try {
+          args = args.trim() ? JSON.parse(args) : {};
+        } catch {
+          // Leave invalid JSON as the raw string
+        }
+      }
+      return { id: part.id || `call_${part.index}`, name: part.name!, arguments: args };
+    });
+}
+
+/**
+ * Token usage from an OpenAI-style `usage` or Gemini-style `usageMetadata` object
+ */
+export function readUsage(payload: any): AIUsage | undefined {
+  const usage = payload?.usage;
+  if (usage && typeof usage === 'object') {
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+      ...(usage.completion_tokens_details?.reasoning_tokens !== undefined && {
+        thinkingTokens: usage.completion_tokens_details.reasoning_tokens
+      })
+    };
+  }
+
+  const metadata = payload?.usageMetadata;
+  if (metadata && typeof metadata === 'object') {
+    return {
+      promptTokens: metadata.promptTokenCount ?? 0,
+      completionTokens: metadata.candidatesTokenCount ?? 0,
+      totalTokens: metadata.totalTokenCount ?? 0,
+      ...(metadata.thoughtsTokenCount !== undefined && { thinkingTokens: metadata.thoughtsTokenCount })
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Text, thinking, finish reason and usage of a completion payload or stream chunk
+ * Accepts OpenAI choices (message or delta), Gemini candidates and bare { text } objects
+ */
+export function readChatChunk(payload: any): ChatChunk {
+  const chunk: ChatChunk = { text: '', thinking: '' };
+  const usage = readUsage(payload);
+  if (usage) chunk.usage = usage;
+
+  const choice = payload?.choices?.[0];
+  if (choice) {
+    const message = choice.delta ?? choice.message ?? {};
+    chunk.text = typeof message.content === 'string' ? message.content : choice.text ?? '';
+    chunk.thinking = message.reasoning_content ?? message.reasoning ?? message.thinking ?? '';
+    if (message.role) chunk.role = message.role;
+    if (choice.finish_reason) chunk.finishReason = choice.finish_reason;
+    if (Array.isArray(message.tool_calls)) {
+      chunk.toolCalls = message.tool_calls.map((call: any, index: number) => ({
+        index: call.index ?? index,
+        id: call.id,
+        name: call.function?.name ?? call.name,
+        arguments: call.function?.arguments ?? call.arguments ?? ''
+      }));
+    }
+    return chunk;
+  }
+
+  const candidate = payload?.candidates?.[0];
+  if (candidate) {
+    for (const part of candidate.content?.parts ?? []) {
+      if (part.functionCall) {
+        chunk.toolCalls ??= [];
+        chunk.toolCalls.push({
+          index: chunk.toolCalls.length,
+          id: part.functionCall.id,
+          name: part.functionCall.name,
+          arguments: part.functionCall.args ?? {}
+        });
+        continue;
+      }
+      if (typeof part.text !== 'string') continue;
+      if (part.thought) chunk.thinking += part.text;
+      else chunk.text += part.text;
+    }
+    if (candidate.content?.role) chunk.role = candidate.content.role === 'model' ? 'assistant' : candidate.content.role;
+    if (candidate.finishReason) chunk.finishReason = candidate.finishReason;
+    return chunk;
+  }
+
+  if (typeof payload === 'string') {
+    chunk.text = payload;
+  } else if (payload && typeof payload === 'object') {
+    const text = payload.text ?? payload.content ?? payload.delta ?? payload.response;
+    if (typeof text === 'string') chunk.text = text;
+    if (typeof payload.thinking === 'string') chunk.thinking = payload.thinking;
+    if (payload.finish_reason ?? payload.finishReason) chunk.finishReason = payload.finish_reason ?? payload.finishReason;
+  }
+  return chunk;
+}
+
+/**
+ * Normalize a chat completion payload
+ */
+export function toChatResponse(payload: unknown): AIChatResponse {
+  const chunk = readChatChunk(payload);
+  return {
+    text: chunk.text,
+    role: chunk.role ?? 'assistant',
+    thinking: chunk.thinking,
+    finishReason: chunk.finishReason ?? null,
+    usage: chunk.usage ?? null,
+    toolCalls: toToolCalls(chunk.toolCalls ?? []),
+    raw: payload
+  };
+}
+
+function toImage(source: any): AIImage | null {
+  const data = source?.data ?? source?.base64 ?? source?.b64_json;
+  if (typeof data !== 'string' || !data) return null;
+  return { data, mimeType: source.mimeType ?? source.mime_type ?? 'image/png' };
+}
+
+/**
+ * Normalize an image generation payload
+ * Accepts { images, text }, OpenAI-style { data: [{ b64_json }] } and Gemini candidates with inline data parts
+ */
+export function toImageResponse(payload: any): AIImageResponse {
+  const images: AIImage[] = [];
+  let text = '';
+
+  const parts = payload?.candidates?.[0]?.content?.parts ?? payload?.parts;
+  if (Array.isArray(parts)) {
+    for (const part of parts) {
+      const image = toImage(part.inlineData ?? part.inline_data);
+      if (image) images.push(image);
+      else if (typeof part.text === 'string' && !part.thought) text += part.text;
+    }
+  }
+
+  for (const source of [payload?.images, payload?.data].filter(Array.isArray)) {
+    for (const entry of source) {
+      const image = toImage(entry);
+      if (image) images.push(image);
+    }
+  }
+
+  if (!text && typeof payload?.text === 'string') text = payload.text;
+
+  return { images, text, raw: payload };
+}
+
+function streamErrorMessage(payload: any): string {
+  const error = payload?.error ?? payload;
+  return typeof error === 'string' ? error : error?.message ?? 'stream error';
+}
+
+/**
+ * Streamed chat completion
+ * Iterate it for text deltas, then call final() for the full response (text, thinking, usage, finish reason)
+ * The stream can be read once; breaking out of the loop or calling cancel() closes the connection
+ *
+ * @example
+ * const stream = client.streamChatWithAI([{ role: 'user', content: 'Write a haiku' }]);
+ * for await (const delta of stream) {
+ *   process.stdout.write(delta);
+ * }
+ * const { usage, finishReason } = await stream.final();
+ */
+export class AIChatStream implements AsyncIterable<string> {
+  private readonly controller = new AbortController();
+  private readonly response: Promise<Response>;
+  private readonly result: Promise<AIChatResponse>;
+  private resolveResult!: (result: AIChatResponse) => void;
+  private rejectResult!: (error: unknown) => void;
+  private started = false;
+  private readonly detach: () => void;
+
+  /**
+   * @param open - Sends the request with the stream's signal and resolves with the unread Response
+   * @param signal - Caller's signal; aborting it cancels the stream
+   */
+  constructor(open: (signal: AbortSignal) => Promise<Response>, signal?: AbortSignal) {
+    this.result = new Promise((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+    // Rejections surface through iteration or final()
+    this.result.catch(() => undefined);
+
+    const onAbort = () => this.controller.abort(signal!.reason);
+    this.detach = () => signal?.removeEventListener('abort', onAbort);
+    if (signal?.aborted) {
+      this.controller.abort(signal.reason);
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    this.response = open(this.controller.signal);
+    this.response.catch(() => undefined);
+  }
+
+  /**
+   * Stop the stream and close the connection
+   */
+  cancel(reason?: unknown): void {
+    this.detach();
+    this.controller.abort(reason);
+  }
+
+  /**
+   * Full result once the stream ends (reads the rest of the stream if nobody is iterating)
+   * Rejects if the stream fails or is cancelled
+   */
+  async final(): Promise<AIChatResponse> {
+    if (!this.started) {
+      for await (const _delta of this) {
+        // Drain
+      }
+    }
+    return this.result;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<string, void, undefined> {
+    if (this.started) {
+      throw new SwitchXError('AI chat stream can only be read once');
+    }
+    this.started = true;
+
+    const chunks: unknown[] = [];
+    const toolCalls = new Map<number, ToolCallPart>();
+    const result: AIChatResponse = {
+      text: '',
+      role: 'assistant',
+      thinking: '',
+      finishReason: null,
+      usage: null,
+      toolCalls: [],
+      raw: chunks
+    };
+    let settled = false;
+
+    try {
+      const response = await this.response;
+      if (!response.body) {
+        throw new SwitchXError('AI chat failed: response has no body', { status: response.status });
+      }
+
+      for await (const message of parseEventStream(response.body)) {
+        if (message.data === '[DONE]') break;
+
+        let payload: unknown;
+        try {
+          payload = JSON.parse(message.data);
+        } catch {
+          payload = message.data;
+        }
+
+        if (message.event === 'error' || (payload && typeof payload === 'object' && 'error' in payload)) {
+          throw new SwitchXError(`AI chat failed: ${streamErrorMessage(payload)}`, { body: payload });
+        }
+
+        chunks.push(payload);
+        const chunk = readChatChunk(payload);
+        if (chunk.role) result.role = chunk.role;
+        result.thinking += chunk.thinking;
+        if (chunk.finishReason) result.finishReason = chunk.finishReason;
+        if (chunk.usage) result.usage = chunk.usage;
+        if (chunk.toolCalls) mergeToolCallParts(toolCalls, chunk.toolCalls);
+        if (chunk.text) {
+          result.text += chunk.text;
+          yield chunk.text;
+        }
+      }
+
+      settled = true;
+      result.toolCalls = toToolCalls(toolCalls.values());
+      this.resolveResult(result);
+    } catch (error) {
+      settled = true;
+      const failure = this.controller.signal.aborted
+        ? createAbortError(this.controller.signal)
+        : error instanceof SwitchXError
+          ? error
+          : new SwitchXNetworkError(`AI chat failed: ${(error as Error)?.message || 'stream error'}`, { cause: error });
+      this.rejectResult(failure);
+      throw failure;
+    } finally {
+      // Don't hold on to a long-lived caller signal
+      this.detach();
+      if (!settled) {
+        // Consumer stopped early
+        this.controller.abort();
+        this.rejectResult(createAbortError(this.controller.signal));
+      }
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Batch operations for SwitchX SDK
+ * Runs one task per item with bounded concurrency and reports every failure instead of stopping at the first
+ */
+
+import { SwitchXValidationError } from './errors';
+import { throwIfAborted } from './http';
+import type { BatchOptions, BatchReport } from '../types';
+
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Run a task for every item, at most options.concurrency at a time
+ * Items that were not started when the signal aborted are reported as failed with the abort reason
+ * @param items - Items to process
+ * @param task - Operation for one item
+ * @param options - Concurrency limit
+ * @param signal - Stops starting new items when aborted
+ * @throws SwitchXValidationError if concurrency is not a whole number of at least 1
+ */
+export async function runBatch<I>(
+  items: readonly I[],
+  task: (item: I) => Promise<unknown>,
+  options: BatchOptions = {},
+  signal?: AbortSignal
+): Promise<BatchReport<I>> {
+  const concurrency = options.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new SwitchXValidationError(`concurrency must be a whole number of at least 1, got ${concurrency}`);
+  }
+
+  const errors = new Array<Error | null>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        throwIfAborted(signal);
+        await task(items[index]);
+        errors[index] = null;
+      } catch (error) {
+        errors[index] = toError(error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+  const report: BatchReport<I> = { succeeded: [], failed: [] };
+  items.forEach((item, index) => {
+    const error = errors[index];
+    if (error) {
+      report.failed.push({ item, error });
+    } else {
+      report.succeeded.push(item);
+    }
+  });
+  return report;
+}
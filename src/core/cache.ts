@@ -0,0 +1,198 @@
+/**
+ * Response cache for SwitchX SDK
+ * Stores mapped read results per resource with a TTL, in memory, localStorage or a custom backend
+ */
+
+import type {
+  CacheEntry,
+  CacheOptions,
+  SwitchXCacheResource,
+  SwitchXCacheStorage
+} from '../types';
+
+/**
+ * Default time to live per resource, in milliseconds
+ */
+export const DEFAULT_CACHE_TTL: Record<SwitchXCacheResource, number> = {
+  community: 5 * 60 * 1000,
+  user: 5 * 60 * 1000,
+  channels: 60 * 1000,
+  groups: 60 * 1000,
+  members: 60 * 1000
+};
+
+/**
+ * In-memory storage (per client instance)
+ */
+export class MemoryCacheStorage implements SwitchXCacheStorage {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  get(key: string): CacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * Browser localStorage storage (values are JSON serialized)
+ * Falls back to a no-op when localStorage is unavailable or full
+ */
+export class LocalStorageCacheStorage implements SwitchXCacheStorage {
+  private get storage(): Storage | undefined {
+    try {
+      return typeof localStorage !== 'undefined' ? localStorage : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const raw = this.storage?.getItem(key);
+    if (!raw) return undefined;
+
+    try {
+      return JSON.parse(raw) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    try {
+      this.storage?.setItem(key, JSON.stringify(entry));
+    } catch {
+      // Quota exceeded - caching is best effort
+    }
+  }
+
+  delete(key: string): void {
+    this.storage?.removeItem(key);
+  }
+
+  keys(): string[] {
+    const storage = this.storage;
+    if (!storage) return [];
+
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+const USER_CLAIMS = ['sub', 'user_id', 'userId', 'id'];
+
+/**
+ * Cache scope for a token: the user ID claim of a JWT, or a hash of the token
+ * Using the user ID keeps entries valid across token refreshes
+ */
+export function tokenScope(token: string): string {
+  const payload = token.split('.')[1];
+  if (payload) {
+    try {
+      const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+      const claims = JSON.parse(atob(base64));
+      const claim = USER_CLAIMS.find((name) => typeof claims?.[name] === 'string' || typeof claims?.[name] === 'number');
+      if (claim) return `u${claims[claim]}`;
+    } catch {
+      // Not a JWT - hash it
+    }
+  }
+
+  // FNV-1a, so the token itself is never written to storage
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `t${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * TTL cache keyed by user scope, resource and ID
+ */
+export class ResponseCache {
+  private readonly storage: SwitchXCacheStorage;
+  private readonly ttl: Record<SwitchXCacheResource, number>;
+  private readonly prefix: string;
+  private readonly fixedScope: string | undefined;
+  private scope: string;
+
+  /**
+   * @param options - Storage, TTLs, key prefix and scope
+   * @param token - Token the default scope is derived from
+   */
+  constructor(options: CacheOptions = {}, token = '') {
+    const { storage = 'memory' } = options;
+    this.storage = storage === 'memory'
+      ? new MemoryCacheStorage()
+      : storage === 'localStorage'
+        ? new LocalStorageCacheStorage()
+        : storage;
+    this.ttl = { ...DEFAULT_CACHE_TTL, ...options.ttl };
+    this.prefix = options.prefix ?? 'switchx:';
+    this.fixedScope = options.scope;
+    this.scope = options.scope ?? tokenScope(token);
+  }
+
+  /**
+   * Switch to the scope of a new token (no-op when options.scope was given)
+   */
+  setToken(token: string): void {
+    this.scope = this.fixedScope ?? tokenScope(token);
+  }
+
+  private key(resource: SwitchXCacheResource, id: string): string {
+    return `${this.prefix}${this.scope}:${resource}:${id}`;
+  }
+
+  /**
+   * Get a live entry (expired entries are removed)
+   */
+  async get<T>(resource: SwitchXCacheResource, id: string): Promise<T | undefined> {
+    const key = this.key(resource, id);
+    const entry = await this.storage.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      await this.storage.delete(key);
+      return undefined;
+    }
+
+    return entry.value as T;
+  }
+
+  async set(resource: SwitchXCacheResource, id: string, value: unknown): Promise<void> {
+    const ttl = this.ttl[resource];
+    if (!(ttl > 0)) return;
+
+    await this.storage.set(this.key(resource, id), { value, expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Remove one entry, every entry of a resource, or everything in the current scope
+   */
+  async invalidate(resource?: SwitchXCacheResource, id?: string): Promise<void> {
+    if (resource && id !== undefined) {
+      await this.storage.delete(this.key(resource, id));
+      return;
+    }
+
+    const match = `${this.prefix}${this.scope}:${resource ? `${resource}:` : ''}`;
+    const keys = await this.storage.keys();
+    await Promise.all(keys.filter((key) => key.startsWith(match)).map((key) => this.storage.delete(key)));
+  }
+}
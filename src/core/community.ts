@@ -0,0 +1,197 @@
+/**
+ * Community-scoped facade for SwitchX SDK
+ * Binds a community ID so callers don't pass it to every method
+ */
+
+import type { SwitchXCore } from './index';
+import type { SwitchXWatcher } from './watch';
+import type {
+  CommunityInfo,
+  CommunityDetails,
+  Heading,
+  PaginationOptions,
+  SearchOptions,
+  IterateOptions,
+  MessageQuery,
+  ExportOptions,
+  MediaMessageOptions,
+  Sticker,
+  BatchOptions,
+  WatchOptions,
+  RequestOptions
+} from '../types';
+
+type ChannelOptions = Parameters<SwitchXCore['createChannel']>[2];
+type ChannelUpdate = Omit<Parameters<SwitchXCore['updateChannel']>[0], 'communityId'>;
+type GroupOptions = Parameters<SwitchXCore['createGroup']>[2];
+type GroupUpdateOptions = Parameters<SwitchXCore['updateGroup']>[3];
+type MessageOptions = Parameters<SwitchXCore['sendMessage']>[3];
+type CommunityUpdates = Parameters<SwitchXCore['updateCommunity']>[1];
+type ConversationExport = Omit<ExportOptions, 'channelId' | 'groupId' | 'communityId'>;
+
+/**
+ * Client scoped to one community
+ * Every method takes the same trailing requestOptions as the SwitchXCore method it wraps
+ *
+ * @example
+ * const community = client.community(communityId);
+ * const members = await community.members.list();
+ * const results = await community.messages.search('release');
+ * const packs = await community.stickers.installed();
+ */
+export class SwitchXCommunity {
+  /** Channel operations */
+  readonly channels;
+  /** Group operations */
+  readonly groups;
+  /** Member operations */
+  readonly members;
+  /** Message operations across channels and groups */
+  readonly messages;
+  /** Role operations */
+  readonly roles;
+  /** Sticker pack operations */
+  readonly stickers;
+
+  /**
+   * @param client - Client used for every call
+   * @param id - Community ID
+   */
+  constructor(readonly client: SwitchXCore, readonly id: string) {
+    this.channels = {
+      list: (requestOptions?: RequestOptions) =>
+        client.getChannels(id, requestOptions),
+      create: (name: string, options?: ChannelOptions, requestOptions?: RequestOptions) =>
+        client.createChannel(name, id, options, requestOptions),
+      update: (channel: ChannelUpdate, requestOptions?: RequestOptions) =>
+        client.updateChannel({ ...channel, communityId: id }, requestOptions),
+      delete: (channelId: string, requestOptions?: RequestOptions) =>
+        client.deleteChannel(channelId, id, requestOptions),
+      messages: (channelId: string, options?: PaginationOptions, requestOptions?: RequestOptions) =>
+        client.getChannelMessages(channelId, id, options, requestOptions),
+      iterateMessages: (channelId: string, options?: IterateOptions, requestOptions?: RequestOptions) =>
+        client.iterateChannelMessages(channelId, id, options, requestOptions),
+      export: (channelId: string, options: ConversationExport, requestOptions?: RequestOptions) =>
+        client.exportConversation({ ...options, channelId, communityId: id }, requestOptions),
+      send: (channelId: string, message: string, options?: MessageOptions, requestOptions?: RequestOptions) =>
+        client.sendMessage(channelId, message, id, options, requestOptions),
+      sendImage: (channelId: string, file: File | Blob, options?: MediaMessageOptions, requestOptions?: RequestOptions) =>
+        client.sendImage(channelId, file, id, options, requestOptions),
+      sendVideo: (channelId: string, file: File | Blob, options?: MediaMessageOptions, requestOptions?: RequestOptions) =>
+        client.sendVideo(channelId, file, id, options, requestOptions),
+      sendAudio: (channelId: string, file: File | Blob, options?: MediaMessageOptions, requestOptions?: RequestOptions) =>
+        client.sendAudio(channelId, file, id, options, requestOptions),
+      sendDocument: (channelId: string, file: File | Blob, options?: MediaMessageOptions, requestOptions?: RequestOptions) =>
+        client.sendDocument(channelId, file, id, options, requestOptions),
+      sendSticker: (channelId: string, sticker: Sticker, requestOptions?: RequestOptions) =>
+        client.sendSticker(channelId, sticker, id, requestOptions),
+      markAsRead: (channelId: string, requestOptions?: RequestOptions) =>
+        client.markChannelAsRead(id, channelId, requestOptions)
+    };
+
+    this.groups = {
+      list: (requestOptions?: RequestOptions) =>
+        client.getGroups(id, requestOptions),
+      create: (name: string, options?: GroupOptions, requestOptions?: RequestOptions) =>
+        client.createGroup(name, id, options, requestOptions),
+      update: (groupId: string, groupName: string, options?: GroupUpdateOptions, requestOptions?: RequestOptions) =>
+        client.updateGroup(groupId, groupName, id, options, requestOptions),
+      delete: (groupId: string, requestOptions?: RequestOptions) =>
+        client.deleteGroup(groupId, id, requestOptions),
+      messages: (groupId: string, options?: PaginationOptions, requestOptions?: RequestOptions) =>
+        client.getGroupMessages(groupId, id, options, requestOptions),
+      iterateMessages: (groupId: string, options?: IterateOptions, requestOptions?: RequestOptions) =>
+        client.iterateGroupMessages(groupId, id, options, requestOptions),
+      export: (groupId: string, options: ConversationExport, requestOptions?: RequestOptions) =>
+        client.exportConversation({ ...options, groupId, communityId: id }, requestOptions),
+      markAsRead: (groupId: string, requestOptions?: RequestOptions) =>
+        client.markGroupAsRead(id, groupId, requestOptions)
+    };
+
+    this.members = {
+      list: (requestOptions?: RequestOptions) =>
+        client.getMembers(id, requestOptions),
+      add: (userId: string, options?: { admin?: boolean }, requestOptions?: RequestOptions) =>
+        client.addMember(userId, id, options, requestOptions),
+      addMany: (userIds: string[], options?: BatchOptions & { admin?: boolean }, requestOptions?: RequestOptions) =>
+        client.addMembers(userIds, id, options, requestOptions),
+      join: (userId: string, groupId?: string, referredByUserId?: string, requestOptions?: RequestOptions) =>
+        client.joinCommunity(id, userId, groupId, referredByUserId, requestOptions),
+      isAdmin: (userId: string, requestOptions?: RequestOptions) =>
+        client.isAdmin(userId, id, requestOptions)
+    };
+
+    this.messages = {
+      get: (query: MessageQuery, requestOptions?: RequestOptions) =>
+        client.getMessages({ ...query, communityId: id }, requestOptions),
+      search: (searchString: string, options?: SearchOptions, requestOptions?: RequestOptions) =>
+        client.searchMessages(searchString, id, options, requestOptions),
+      iterateSearch: (searchString: string, options?: IterateOptions, requestOptions?: RequestOptions) =>
+        client.iterateSearchMessages(searchString, id, options, requestOptions),
+      react: (messageId: string, emoji: string, requestOptions?: RequestOptions) =>
+        client.createReaction(messageId, emoji, id, requestOptions),
+      unreact: (messageId: string, emoji: string, requestOptions?: RequestOptions) =>
+        client.deleteReaction(messageId, emoji, id, requestOptions),
+      pin: (messageId: string, requestOptions?: RequestOptions) =>
+        client.pinMessage(messageId, id, requestOptions)
+    };
+
+    this.roles = {
+      create: (name: string, options?: { colour?: string }, requestOptions?: RequestOptions) =>
+        client.createRole(name, id, options, requestOptions)
+    };
+
+    this.stickers = {
+      installed: (requestOptions?: RequestOptions) =>
+        client.getInstalledStickerPacks(id, requestOptions),
+      install: (stickerPackId: string, requestOptions?: RequestOptions) =>
+        client.installStickerPack(stickerPackId, id, requestOptions),
+      installMany: (stickerPackIds: string[], options?: BatchOptions, requestOptions?: RequestOptions) =>
+        client.installStickerPacks(stickerPackIds, id, options, requestOptions),
+      uninstall: (stickerPackId: string, requestOptions?: RequestOptions) =>
+        client.uninstallStickerPack(stickerPackId, requestOptions)
+    };
+  }
+
+  /**
+   * Get community information
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  info(requestOptions?: RequestOptions): Promise<CommunityInfo> {
+    return this.client.getCommunity(this.id, requestOptions);
+  }
+
+  /**
+   * Get detailed community information
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  details(requestOptions?: RequestOptions): Promise<CommunityDetails> {
+    return this.client.getCommunityDetails(this.id, requestOptions);
+  }
+
+  /**
+   * Update community information
+   * @param updates - Fields to update
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  update(updates: CommunityUpdates, requestOptions?: RequestOptions): Promise<CommunityDetails> {
+    return this.client.updateCommunity(this.id, updates, requestOptions);
+  }
+
+  /**
+   * Watch channels and groups of this community for message changes
+   * @param options - Conversations to follow, polling intervals and transport
+   */
+  watch(options: Omit<WatchOptions, 'communityId'>): SwitchXWatcher {
+    return this.client.watch({ ...options, communityId: this.id });
+  }
+
+  /**
+   * Get headings for the community
+   * @param additional - Whether to fetch additional information
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  headings(additional = false, requestOptions?: RequestOptions): Promise<Heading[]> {
+    return this.client.getHeadings(this.id, additional, requestOptions);
+  }
+}
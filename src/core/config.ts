@@ -0,0 +1,60 @@
+/**
+ * Endpoint configuration for SwitchX SDK
+ * Resolves named environment profiles and per-service overrides into base URLs
+ */
+
+import { SwitchXValidationError } from './errors';
+import type { SwitchXEndpoints, SwitchXEnvironment, SwitchXClientOptions } from '../types';
+
+/**
+ * Built-in endpoint profiles
+ * The local profile expects a single mock server that mounts every service under its own prefix
+ */
+export const SWITCHX_ENVIRONMENTS: Record<SwitchXEnvironment, SwitchXEndpoints> = {
+  production: {
+    gateway: 'https://gateway.switchx.org',
+    chat: 'https://chat-api.switchx.org',
+    ai: 'https://de.switchx.dev/ai',
+    upload: 'https://de.switchx.dev/upload',
+    platform: 'https://de.switchx.dev/api'
+  },
+  staging: {
+    gateway: 'https://gateway.staging.switchx.org',
+    chat: 'https://chat-api.staging.switchx.org',
+    ai: 'https://staging.switchx.dev/ai',
+    upload: 'https://staging.switchx.dev/upload',
+    platform: 'https://staging.switchx.dev/api'
+  },
+  local: {
+    gateway: 'http://localhost:8080/gateway',
+    chat: 'http://localhost:8080/chat-api',
+    ai: 'http://localhost:8080/ai',
+    upload: 'http://localhost:8080/upload',
+    platform: 'http://localhost:8080/api'
+  }
+};
+
+/**
+ * Resolve the base URL of every service from client options
+ * @param options - Environment profile and per-service overrides
+ */
+export function resolveEndpoints(options: SwitchXClientOptions = {}): SwitchXEndpoints {
+  const environment = options.environment || 'production';
+  const profile = SWITCHX_ENVIRONMENTS[environment];
+
+  if (!profile) {
+    throw new SwitchXValidationError(
+      `Unknown environment "${environment}". Use one of: ${Object.keys(SWITCHX_ENVIRONMENTS).join(', ')}.`
+    );
+  }
+
+  const endpoints: SwitchXEndpoints = { ...profile };
+
+  for (const [service, baseUrl] of Object.entries(options.endpoints || {})) {
+    if (baseUrl) {
+      endpoints[service as keyof SwitchXEndpoints] = baseUrl.replace(/\/+$/, '');
+    }
+  }
+
+  return endpoints;
+}
@@ -0,0 +1,477 @@
+/**
+ * AI conversation sessions for SwitchX SDK
+ * Keeps a system prompt and history for chatWithAI, holds the prompt under a token budget and saves sessions as JSON
+ */
+
+import { SwitchXValidationError } from './errors';
+import type { SwitchXCore } from './index';
+import type { AIChatMessage, AIChatOptions, AIChatResponse, AIUsage, RequestOptions } from '../types';
+
+/**
+ * How old turns are removed when the prompt would go over budget
+ * - trim: drop them
+ * - summarize: fold them into a running summary (one extra chatWithAI call) sent with the system prompt
+ */
+export type ConversationStrategy = 'trim' | 'summarize';
+
+export interface ConversationOptions {
+  /** System prompt sent first on every request */
+  system?: string;
+  /**
+   * Most tokens a prompt may use (system prompt, summary and history), as estimated by estimateTokens
+   * Default: 16000
+   */
+  maxTokens?: number;
+  /**
+   * Default: 'trim'
+   */
+  strategy?: ConversationStrategy;
+  /**
+   * Tokens set aside for the summary (summarize only)
+   * Default: a fifth of maxTokens
+   */
+  summaryTokens?: number;
+  /** Model, temperature and other chat settings */
+  chat?: AIChatOptions;
+  /**
+   * Token count of one message
+   * Default: about 4 characters per token, plus a few tokens per message
+   */
+  estimateTokens?(message: AIChatMessage): number;
+}
+
+/**
+ * Saved session, as returned by toJSON
+ */
+export interface ConversationSnapshot {
+  version: 1;
+  system?: string;
+  /** Summary of turns removed from the history */
+  summary: string;
+  messages: AIChatMessage[];
+  /** Tokens used by every request so far */
+  usage: AIUsage;
+  maxTokens: number;
+  strategy: ConversationStrategy;
+  summaryTokens?: number;
+  chat?: AIChatOptions;
+}
+
+const DEFAULT_MAX_TOKENS = 16000;
+const SNAPSHOT_VERSION = 1;
+
+// Summary requests per compaction, when a summary comes back longer than summaryTokens
+const MAX_SUMMARY_PASSES = 3;
+
+// Tokens for the role and separators of each message
+const MESSAGE_OVERHEAD = 4;
+
+const SUMMARY_PROMPT =
+  'Summarize the conversation below so it can be continued later. Keep names, facts, decisions and open questions. ' +
+  'Reply with the summary only.';
+
+/**
+ * Rough token count of a message: about 4 characters per token
+ */
+export function estimateMessageTokens(message: AIChatMessage): number {
+  const calls = message.tool_calls ? JSON.stringify(message.tool_calls).length : 0;
+  return MESSAGE_OVERHEAD + Math.ceil((message.content.length + calls) / 4);
+}
+
+/**
+ * Split history into turns: each user message with the replies and tool messages after it
+ * Removing whole turns keeps tool calls next to their results
+ */
+function toTurns(messages: AIChatMessage[]): AIChatMessage[][] {
+  const turns: AIChatMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) turns.push([message]);
+    else turns[turns.length - 1].push(message);
+  }
+  return turns;
+}
+
+function addUsage(total: AIUsage, usage: AIUsage | null): void {
+  if (!usage) return;
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+  if (usage.thinkingTokens !== undefined) {
+    total.thinkingTokens = (total.thinkingTokens ?? 0) + usage.thinkingTokens;
+  }
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  return value !== null && typeof value === 'object' ? 'object' : String(value);
+}
+
+// Throws naming the snapshot field that failed
+function check(ok: boolean, path: string, expected: string, value: unknown): void {
+  if (!ok) {
+    throw new SwitchXValidationError(`Invalid conversation snapshot: ${path} must be ${expected}, got ${describe(value)}`);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+const isCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+function checkOptional(
+  source: Record<string, any>,
+  key: string,
+  path: string,
+  expected: string,
+  test: (value: unknown) => boolean
+): void {
+  if (source[key] !== undefined) check(test(source[key]), `${path}${key}`, expected, source[key]);
+}
+
+function checkMessage(message: unknown, path: string): void {
+  check(isRecord(message), path, 'an object', message);
+  const { role, content, tool_calls: calls } = message as Record<string, any>;
+  check(typeof role === 'string' && role !== '', `${path}.role`, 'a non-empty string', role);
+  check(typeof content === 'string', `${path}.content`, 'a string', content);
+  checkOptional(message as Record<string, any>, 'tool_call_id', `${path}.`, 'a string', (value) => typeof value === 'string');
+  checkOptional(message as Record<string, any>, 'name', `${path}.`, 'a string', (value) => typeof value === 'string');
+  if (calls === undefined) return;
+
+  check(Array.isArray(calls), `${path}.tool_calls`, 'an array', calls);
+  (calls as unknown[]).forEach((call, index) => {
+    const callPath = `${path}.tool_calls[${index}]`;
+    check(isRecord(call), callPath, 'an object', call);
+    const { id, type, function: fn } = call as Record<string, any>;
+    check(typeof id === 'string', `${callPath}.id`, 'a string', id);
+    check(type === 'function', `${callPath}.type`, "'function'", type);
+    check(isRecord(fn), `${callPath}.function`, 'an object', fn);
+    check(typeof fn.name === 'string', `${callPath}.function.name`, 'a string', fn.name);
+    check(typeof fn.arguments === 'string', `${callPath}.function.arguments`, 'a string', fn.arguments);
+  });
+}
+
+/**
+ * Check every field of a parsed snapshot
+ * @throws SwitchXValidationError naming the first invalid field
+ */
+function checkSnapshot(data: unknown): ConversationSnapshot {
+  check(isRecord(data), 'snapshot', 'an object', data);
+  const snapshot = data as Record<string, any>;
+
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new SwitchXValidationError(`Unsupported conversation snapshot version: ${describe(snapshot.version)}`);
+  }
+  checkOptional(snapshot, 'system', '', 'a string', (value) => typeof value === 'string');
+  check(typeof snapshot.summary === 'string', 'summary', 'a string', snapshot.summary);
+
+  check(Array.isArray(snapshot.messages), 'messages', 'an array', snapshot.messages);
+  snapshot.messages.forEach((message: unknown, index: number) => checkMessage(message, `messages[${index}]`));
+
+  check(isRecord(snapshot.usage), 'usage', 'an object', snapshot.usage);
+  for (const key of ['promptTokens', 'completionTokens', 'totalTokens']) {
+    check(isCount(snapshot.usage[key]), `usage.${key}`, 'a non-negative number', snapshot.usage[key]);
+  }
+  checkOptional(snapshot.usage, 'thinkingTokens', 'usage.', 'a non-negative number', isCount);
+
+  check(isPositiveInteger(snapshot.maxTokens), 'maxTokens', 'a positive integer', snapshot.maxTokens);
+  check(
+    snapshot.strategy === 'trim' || snapshot.strategy === 'summarize',
+    'strategy',
+    "'trim' or 'summarize'",
+    snapshot.strategy
+  );
+  checkOptional(snapshot, 'summaryTokens', '', 'a positive integer', isPositiveInteger);
+
+  if (snapshot.chat !== undefined) {
+    const { chat } = snapshot;
+    check(isRecord(chat), 'chat', 'an object', chat);
+    checkOptional(chat, 'model', 'chat.', 'a string', (value) => typeof value === 'string');
+    for (const key of ['temperature', 'max_tokens', 'thinking_budget']) {
+      checkOptional(chat, key, 'chat.', 'a number', (value) => typeof value === 'number' && Number.isFinite(value));
+    }
+    checkOptional(chat, 'tools', 'chat.', 'an array', Array.isArray);
+    checkOptional(chat, 'tool_choice', 'chat.', "'auto', 'none' or 'required'", (value) =>
+      value === 'auto' || value === 'none' || value === 'required');
+  }
+
+  return snapshot as ConversationSnapshot;
+}
+
+/**
+ * Multi-turn chat over chatWithAI
+ * Before each request, the oldest turns are trimmed or summarized so the prompt stays under maxTokens
+ *
+ * @example
+ * const conversation = client.conversation({ system: 'You are a helpful community bot.', maxTokens: 8000 });
+ * const { text } = await conversation.send('What did we decide about the launch?');
+ *
+ * // Save between requests and pick up later
+ * await store.set(userId, JSON.stringify(conversation));
+ * const resumed = AIConversation.fromJSON(client, await store.get(userId));
+ */
+export class AIConversation {
+  /** System prompt sent first on every request */
+  system: string | undefined;
+  /** Summary of turns removed from the history ('' until something is summarized) */
+  summary = '';
+
+  private history: AIChatMessage[] = [];
+  private readonly totalUsage: AIUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  private readonly maxTokens: number;
+  private readonly strategy: ConversationStrategy;
+  private readonly summaryTokens: number;
+  private readonly estimate: (message: AIChatMessage) => number;
+
+  /**
+   * @param client - Client used for chat requests
+   * @param options - System prompt, token budget, strategy and chat settings
+   * @throws SwitchXValidationError for an invalid budget or strategy
+   */
+  constructor(readonly client: SwitchXCore, private readonly options: ConversationOptions = {}) {
+    const { maxTokens = DEFAULT_MAX_TOKENS, strategy = 'trim' } = options;
+    const summaryTokens = options.summaryTokens ?? Math.floor(maxTokens / 5);
+
+    if (!(Number.isInteger(maxTokens) && maxTokens > 0)) {
+      throw new SwitchXValidationError(`maxTokens must be a positive integer, got ${maxTokens}`);
+    }
+    if (strategy !== 'trim' && strategy !== 'summarize') {
+      throw new SwitchXValidationError(`strategy must be 'trim' or 'summarize', got ${strategy}`);
+    }
+    if (!(Number.isInteger(summaryTokens) && summaryTokens > 0 && summaryTokens < maxTokens)) {
+      throw new SwitchXValidationError(`summaryTokens must be a positive integer below maxTokens, got ${summaryTokens}`);
+    }
+
+    this.system = options.system;
+    this.maxTokens = maxTokens;
+    this.strategy = strategy;
+    this.summaryTokens = summaryTokens;
+    this.estimate = options.estimateTokens ?? estimateMessageTokens;
+  }
+
+  /**
+   * Restore a session saved with toJSON
+   * @param client - Client used for chat requests
+   * @param snapshot - Snapshot object or its JSON string
+   * @param options - Settings that override the saved ones (e.g. a custom estimateTokens)
+   * @throws SwitchXValidationError if the snapshot is not valid
+   */
+  static fromJSON(
+    client: SwitchXCore,
+    snapshot: ConversationSnapshot | string,
+    options: ConversationOptions = {}
+  ): AIConversation {
+    let parsed: unknown = snapshot;
+    if (typeof snapshot === 'string') {
+      try {
+        parsed = JSON.parse(snapshot);
+      } catch (error) {
+        throw new SwitchXValidationError(`Invalid conversation snapshot: ${(error as Error).message}`);
+      }
+    }
+    const data = checkSnapshot(parsed);
+
+    const conversation = new AIConversation(client, {
+      system: data.system,
+      maxTokens: data.maxTokens,
+      strategy: data.strategy,
+      summaryTokens: data.summaryTokens,
+      chat: data.chat,
+      ...options
+    });
+    conversation.summary = data.summary;
+    conversation.history = data.messages.map((message) => ({ ...message }));
+    addUsage(conversation.totalUsage, data.usage);
+    return conversation;
+  }
+
+  /**
+   * Messages kept in the history (without the system prompt)
+   */
+  get messages(): AIChatMessage[] {
+    return this.history.map((message) => ({ ...message }));
+  }
+
+  /**
+   * Tokens used by every request so far (summaries included), as reported by the service
+   */
+  get usage(): AIUsage {
+    return { ...this.totalUsage };
+  }
+
+  /**
+   * Estimated size of the next prompt (system prompt, summary and history), in tokens
+   */
+  get tokens(): number {
+    return this.promptTokens(this.history);
+  }
+
+  /**
+   * Send a user message and add the reply to the history
+   * Old turns are trimmed or summarized first if the prompt would go over maxTokens
+   * If the request fails the message is not kept, so it can be sent again
+   * @param content - User message
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXValidationError if the message alone does not fit maxTokens
+   */
+  async send(content: string, requestOptions?: RequestOptions): Promise<AIChatResponse> {
+    const message: AIChatMessage = { role: 'user', content };
+    await this.fit([...this.history, message], requestOptions);
+
+    this.history.push(message);
+    let response: AIChatResponse;
+    try {
+      response = await this.client.chatWithAI(this.prompt(this.history), this.options.chat, requestOptions);
+    } catch (error) {
+      this.history.pop();
+      throw error;
+    }
+
+    addUsage(this.totalUsage, response.usage);
+    this.history.push({
+      role: 'assistant',
+      content: response.text,
+      ...(response.toolCalls.length > 0 && {
+        tool_calls: response.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: {
+            name: call.name,
+            arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments)
+          }
+        }))
+      })
+    });
+    return response;
+  }
+
+  /**
+   * Add messages to the history without sending them (e.g. tool results or an assistant greeting)
+   */
+  add(...messages: AIChatMessage[]): this {
+    this.history.push(...messages.map((message) => ({ ...message })));
+    return this;
+  }
+
+  /**
+   * Trim or summarize old turns now, until the prompt fits maxTokens
+   * send() does this itself; call it to shrink a restored session before using it
+   * @param requestOptions - Optional signal, timeout and retry settings for the summary request
+   */
+  async compact(requestOptions?: RequestOptions): Promise<void> {
+    await this.fit(this.history, requestOptions);
+  }
+
+  /**
+   * Forget the history and summary (the system prompt and usage are kept)
+   */
+  clear(): void {
+    this.history = [];
+    this.summary = '';
+  }
+
+  /**
+   * Session as plain JSON data, for JSON.stringify or a session store
+   */
+  toJSON(): ConversationSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      ...(this.system !== undefined && { system: this.system }),
+      summary: this.summary,
+      messages: this.messages,
+      usage: this.usage,
+      maxTokens: this.maxTokens,
+      strategy: this.strategy,
+      ...(this.options.summaryTokens !== undefined && { summaryTokens: this.options.summaryTokens }),
+      ...(this.options.chat && { chat: this.options.chat })
+    };
+  }
+
+  /**
+   * System message (system prompt plus summary) followed by the history
+   */
+  private prompt(messages: AIChatMessage[], summary = this.summary): AIChatMessage[] {
+    const system = [this.system, summary && `Summary of the earlier conversation:\n${summary}`]
+      .filter(Boolean)
+      .join('\n\n');
+    return system ? [{ role: 'system', content: system }, ...messages] : messages;
+  }
+
+  private promptTokens(messages: AIChatMessage[], summary = this.summary): number {
+    return this.prompt(messages, summary).reduce((total, message) => total + this.estimate(message), 0);
+  }
+
+  /**
+   * Remove the oldest turns of messages (the pending prompt) until it fits, summarizing them if asked
+   * The newest turn is never removed. Nothing changes unless the result fits: on an error, the summary and history stay as they were
+   * @throws SwitchXValidationError if the newest turn does not fit on its own
+   */
+  private async fit(messages: AIChatMessage[], requestOptions?: RequestOptions): Promise<void> {
+    if (this.promptTokens(messages) <= this.maxTokens) return;
+
+    const turns = toTurns(messages);
+    const tooLarge = (tokens: number) => new SwitchXValidationError(
+      `Message does not fit the conversation budget: about ${tokens} tokens, maxTokens is ${this.maxTokens}`
+    );
+    let summary = this.summary;
+
+    if (this.strategy === 'trim') {
+      while (turns.length > 1 && this.promptTokens(turns.flat(), summary) > this.maxTokens) {
+        turns.shift();
+      }
+    } else {
+      // Check before paying for a summary: the newest turn plus the room kept for the summary must fit
+      const newest = this.promptTokens(turns[turns.length - 1], '');
+      if (newest + this.summaryTokens > this.maxTokens) throw tooLarge(newest + this.summaryTokens);
+
+      // Fold every removed turn into the summary; repeat if the summary came back longer than its share
+      let budget = this.maxTokens - this.summaryTokens;
+      for (let pass = 0; pass < MAX_SUMMARY_PASSES; pass++) {
+        const removed: AIChatMessage[] = [];
+        while (turns.length > 1 && this.promptTokens(turns.flat(), summary) > budget) {
+          removed.push(...turns.shift()!);
+        }
+        if (removed.length === 0) break;
+        summary = await this.summarize(summary, removed, requestOptions);
+        budget = this.maxTokens;
+      }
+    }
+
+    const kept = turns.flat();
+    const tokens = this.promptTokens(kept, summary);
+    if (tokens > this.maxTokens) throw tooLarge(tokens);
+
+    this.summary = summary;
+    // Drop the same messages from the stored history (the pending message is not stored yet)
+    this.history = this.history.slice(messages.length - kept.length);
+  }
+
+  /**
+   * Fold removed messages into a summary
+   * @param summary - Summary so far
+   */
+  private async summarize(summary: string, removed: AIChatMessage[], requestOptions?: RequestOptions): Promise<string> {
+    const transcript = removed
+      .filter((message) => message.content)
+      .map((message) => `${message.role}: ${message.content}`)
+      .join('\n');
+    const earlier = summary ? `Earlier summary:\n${summary}\n\n` : '';
+
+    const response = await this.client.chatWithAI(
+      [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: `${earlier}Conversation:\n${transcript}` }
+      ],
+      {
+        model: this.options.chat?.model,
+        temperature: 0.2,
+        max_tokens: this.summaryTokens
+      },
+      requestOptions
+    );
+    addUsage(this.totalUsage, response.usage);
+    return response.text.trim();
+  }
+}
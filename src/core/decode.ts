@@ -0,0 +1,217 @@
+/**
+ * Runtime response decoders for SwitchX SDK
+ * Small schema combinators that check the fields the SDK reads before mapping them
+ */
+
+import { SwitchXDecodeError } from './errors';
+import type { SwitchXDecodeIssue } from './errors';
+
+interface DecodeContext {
+  lenient: boolean;
+  issues: SwitchXDecodeIssue[];
+}
+
+/**
+ * Decoder for values of type T
+ */
+export interface Decoder<T> {
+  readonly expected: string;
+  decode(value: unknown, path: string, context: DecodeContext): T;
+}
+
+/**
+ * Type produced by a decoder
+ */
+export type Decoded<D> = D extends Decoder<infer T> ? T : never;
+
+// Thrown inside decoders in strict mode, turned into SwitchXDecodeError by decodeResponse
+class DecodeFailure {
+  constructor(readonly issue: SwitchXDecodeIssue) {}
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Record an issue and return the fallback (lenient) or abort decoding (strict)
+ */
+function invalid<T>(context: DecodeContext, path: string, expected: string, value: unknown, fallback: T): T {
+  const issue = { path: path || '(root)', expected, received: describe(value) };
+  if (!context.lenient) throw new DecodeFailure(issue);
+  context.issues.push(issue);
+  return fallback;
+}
+
+function primitive<T>(expected: string, check: (value: unknown) => value is T, fallback: T): Decoder<T> {
+  return {
+    expected,
+    decode: (value, path, context) => check(value) ? value : invalid(context, path, expected, value, fallback)
+  };
+}
+
+export const string = primitive('string', (value): value is string => typeof value === 'string', '');
+
+export const number = primitive(
+  'number',
+  (value): value is number => typeof value === 'number' && !Number.isNaN(value),
+  0
+);
+
+export const boolean = primitive('boolean', (value): value is boolean => typeof value === 'boolean', false);
+
+/**
+ * Accepts anything (for fields passed through untouched)
+ */
+export const unknown: Decoder<unknown> = {
+  expected: 'unknown',
+  decode: (value) => value
+};
+
+/**
+ * String or numeric identifier, normalized to a string
+ */
+export const id: Decoder<string> = {
+  expected: 'string | number',
+  decode: (value, path, context) => typeof value === 'string' || typeof value === 'number'
+    ? String(value)
+    : invalid(context, path, 'string | number', value, '')
+};
+
+/**
+ * Date string or epoch number, normalized to a string
+ */
+export const timestamp: Decoder<string> = {
+  expected: 'string | number',
+  decode: (value, path, context) => typeof value === 'string' || typeof value === 'number'
+    ? String(value)
+    : invalid(context, path, 'string | number (date)', value, '')
+};
+
+/**
+ * Field that may be missing or null, replaced by a default
+ */
+export function optional<T, F = T>(decoder: Decoder<T>, fallback: F): Decoder<T | F> {
+  return {
+    expected: `${decoder.expected} | undefined`,
+    decode: (value, path, context) => value === undefined || value === null
+      ? fallback
+      : decoder.decode(value, path, context)
+  };
+}
+
+export function array<T>(item: Decoder<T>): Decoder<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    decode: (value, path, context) => {
+      if (!Array.isArray(value)) return invalid(context, path, 'array', value, []);
+      return value.map((entry, index) => item.decode(entry, joinPath(path, index), context));
+    }
+  };
+}
+
+/**
+ * Object returned either bare or wrapped in an envelope object under key
+ * e.g. enveloped(channel) accepts both { channelId } and { result: { channelId } }
+ */
+export function enveloped<T>(item: Decoder<T>, key = 'result'): Decoder<T> {
+  return {
+    expected: item.expected,
+    decode: (value, path, context) => {
+      const inner = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+      if (inner && typeof inner === 'object' && !Array.isArray(inner)) {
+        return item.decode(inner, joinPath(path, key), context);
+      }
+      return item.decode(value, path, context);
+    }
+  };
+}
+
+/**
+ * Array returned either bare or wrapped in an envelope object under one of the given keys
+ * e.g. list(pack, ['content']) accepts both [...] and { content: [...] }
+ */
+export function list<T>(item: Decoder<T>, keys: string[]): Decoder<T[]> {
+  const items = array(item);
+
+  return {
+    expected: items.expected,
+    decode: (value, path, context) => {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        const source = value as Record<string, unknown>;
+        const key = keys.find((name) => Array.isArray(source[name]));
+        if (key) return items.decode(source[key], joinPath(path, key), context);
+      }
+      return items.decode(value, path, context);
+    }
+  };
+}
+
+/**
+ * Object with known fields (extra fields are ignored)
+ */
+export function object<S extends Record<string, Decoder<unknown>>>(
+  shape: S
+): Decoder<{ [K in keyof S]: Decoded<S[K]> }> {
+  type Result = { [K in keyof S]: Decoded<S[K]> };
+
+  const decodeFields = (source: Record<string, unknown>, path: string, context: DecodeContext): Result => {
+    const result = {} as Record<string, unknown>;
+    for (const key of Object.keys(shape)) {
+      result[key] = shape[key].decode(source[key], joinPath(path, key), context);
+    }
+    return result as Result;
+  };
+
+  return {
+    expected: 'object',
+    decode: (value, path, context) => {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return decodeFields(value as Record<string, unknown>, path, context);
+      }
+      // Fill defaults without reporting every field of the missing object again
+      const fallback = decodeFields({}, path, { lenient: true, issues: [] });
+      return invalid(context, path, 'object', value, fallback);
+    }
+  };
+}
+
+/**
+ * Decode a response body
+ * Strict mode throws SwitchXDecodeError on the first issue; lenient mode logs every issue and fills defaults
+ * @param decoder - Schema of the response
+ * @param body - Parsed response body
+ * @param request - Action and request details for the error message
+ * @param lenient - Log and fall back instead of throwing
+ */
+export function decodeResponse<T>(
+  decoder: Decoder<T>,
+  body: unknown,
+  request: { action: string; method: string; url: string },
+  lenient = false
+): T {
+  const context: DecodeContext = { lenient, issues: [] };
+
+  try {
+    const result = decoder.decode(body, '', context);
+
+    if (context.issues.length > 0) {
+      const error = new SwitchXDecodeError(request.action, context.issues, { ...request, body });
+      console.warn(`[SwitchX] ${error.message}`);
+    }
+
+    return result;
+  } catch (error) {
+    if (error instanceof DecodeFailure) {
+      throw new SwitchXDecodeError(request.action, [error.issue], { ...request, body });
+    }
+    throw error;
+  }
+}
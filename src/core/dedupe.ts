@@ -0,0 +1,60 @@
+/**
+ * In-flight request deduplication for SwitchX SDK
+ * Concurrent identical requests share one underlying call; each caller keeps its own AbortSignal
+ */
+
+import { createAbortError, throwIfAborted } from './http';
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Registry of requests currently in flight, keyed by the caller
+ */
+export class RequestDeduper {
+  private readonly pending = new Map<string, SharedRequest>();
+
+  /**
+   * Join the in-flight call for a key, or start it
+   * The shared call is only cancelled once every caller has aborted
+   * @param key - Identity of the request (method + URL)
+   * @param signal - This caller's signal
+   * @param start - Starts the shared call with a signal owned by the deduper
+   */
+  run<T>(key: string, signal: AbortSignal | undefined, start: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    throwIfAborted(signal);
+
+    let shared = this.pending.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const entry: SharedRequest = { promise: Promise.resolve(), controller, waiters: 0 };
+      entry.promise = start(controller.signal).finally(() => {
+        if (this.pending.get(key) === entry) this.pending.delete(key);
+      });
+      this.pending.set(key, entry);
+      shared = entry;
+    }
+
+    const joined = shared;
+    joined.waiters++;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        joined.waiters--;
+        if (joined.waiters === 0) {
+          if (this.pending.get(key) === joined) this.pending.delete(key);
+          joined.controller.abort(signal!.reason);
+        }
+        reject(createAbortError(signal!));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      (joined.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * SwitchX SDK error hierarchy
+ * Every failed request surfaces as a SwitchXError subclass so callers can branch on type
+ */
+
+/**
+ * Request details attached to every SwitchXError
+ */
+export interface SwitchXErrorDetails {
+  /** HTTP status code (undefined when no response was received) */
+  status?: number;
+  /** HTTP method of the failed request */
+  method?: string;
+  /** Full URL of the failed request */
+  url?: string;
+  /** Message extracted from the server response body */
+  serverMessage?: string;
+  /** Request ID from response headers or body, if the server sent one */
+  requestId?: string;
+  /** Parsed response body (JSON when possible, raw text otherwise) */
+  body?: unknown;
+  /** Delay requested by the server (Retry-After), in milliseconds */
+  retryAfter?: number;
+  /** Underlying error (network failure, parse error, ...) */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all SDK errors
+ */
+export class SwitchXError extends Error {
+  readonly status?: number;
+  readonly method?: string;
+  readonly url?: string;
+  readonly serverMessage?: string;
+  readonly requestId?: string;
+  readonly body?: unknown;
+  readonly retryAfter?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: SwitchXErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.method = details.method;
+    this.url = details.url;
+    this.serverMessage = details.serverMessage;
+    this.requestId = details.requestId;
+    this.body = details.body;
+    this.retryAfter = details.retryAfter;
+    this.cause = details.cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * 401/403 - token missing, expired or lacking permission
+ */
+export class SwitchXAuthError extends SwitchXError {}
+
+/**
+ * 404 - resource does not exist
+ */
+export class SwitchXNotFoundError extends SwitchXError {}
+
+/**
+ * 429 - too many requests
+ */
+export class SwitchXRateLimitError extends SwitchXError {}
+
+/**
+ * 400/409/422 or invalid arguments rejected before sending
+ */
+export class SwitchXValidationError extends SwitchXError {}
+
+/**
+ * Request never got a response (DNS, connection reset, CORS, ...)
+ */
+export class SwitchXNetworkError extends SwitchXError {}
+
+/**
+ * Request exceeded its timeout and was cancelled
+ */
+export class SwitchXTimeoutError extends SwitchXNetworkError {}
+
+/**
+ * Incoming webhook rejected: bad signature, stale timestamp or malformed payload
+ * status is the HTTP status to answer with (401 or 400)
+ */
+export class SwitchXWebhookError extends SwitchXError {}
+
+/**
+ * A response field that was missing or had the wrong type
+ */
+export interface SwitchXDecodeIssue {
+  /** Path inside the response body, e.g. "result.userInfoList[2].id" */
+  path: string;
+  /** Expected type */
+  expected: string;
+  /** What was received instead */
+  received: string;
+}
+
+/**
+ * Response body did not have the shape the SDK expects
+ */
+export class SwitchXDecodeError extends SwitchXError {
+  readonly issues: SwitchXDecodeIssue[];
+
+  constructor(action: string, issues: SwitchXDecodeIssue[], details: SwitchXErrorDetails = {}) {
+    const endpoint = [details.method, details.url && stripQuery(details.url)].filter(Boolean).join(' ');
+    const summary = issues
+      .map((issue) => `${issue.path} should be ${issue.expected}, got ${issue.received}`)
+      .join('; ');
+    super(`${action}: unexpected response${endpoint ? ` from ${endpoint}` : ''} - ${summary}`, details);
+    this.issues = issues;
+  }
+}
+
+function stripQuery(url: string): string {
+  const index = url.indexOf('?');
+  return index === -1 ? url : url.slice(0, index);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Pull a human readable message out of an error response body
+ */
+function extractServerMessage(body: unknown): string | undefined {
+  if (typeof body === 'string') {
+    return body.trim() || undefined;
+  }
+  if (body && typeof body === 'object') {
+    const data = body as Record<string, any>;
+    const message = data.message ?? data.detail ?? data.error ?? data.errorMessage ?? data.result?.message;
+    if (typeof message === 'string') return message;
+    if (message !== undefined) return JSON.stringify(message);
+  }
+  return undefined;
+}
+
+/**
+ * Build the matching SwitchXError subclass for an HTTP status
+ * @param action - Human readable action for the message, e.g. "Failed to create channel"
+ */
+export function createHttpError(
+  action: string,
+  details: SwitchXErrorDetails & { status: number }
+): SwitchXError {
+  const serverMessage = details.serverMessage ?? extractServerMessage(details.body);
+  const message = `${action}: ${details.status}${serverMessage ? ` - ${serverMessage}` : ''}`;
+  const fullDetails = { ...details, serverMessage };
+
+  switch (details.status) {
+    case 401:
+    case 403:
+      return new SwitchXAuthError(message, fullDetails);
+    case 404:
+      return new SwitchXNotFoundError(message, fullDetails);
+    case 429:
+      return new SwitchXRateLimitError(message, fullDetails);
+    case 400:
+    case 409:
+    case 422:
+      return new SwitchXValidationError(message, fullDetails);
+    default:
+      return new SwitchXError(message, fullDetails);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Conversation export for SwitchX SDK
+ * Streams a channel or group history as JSONL, CSV or a Markdown transcript
+ */
+
+import { SwitchXError, SwitchXValidationError } from './errors';
+import { toEpoch, parseTime } from './pagination';
+import type { SwitchXCore } from './index';
+import type { ExportFormat, ExportOptions, Message, RequestOptions } from '../types';
+
+const CSV_COLUMNS = ['id', 'sentDate', 'userId', 'author', 'message', 'mediaUrl'] as const;
+
+const FORMATS: readonly ExportFormat[] = ['jsonl', 'csv', 'markdown'];
+
+type ExportRow = Record<(typeof CSV_COLUMNS)[number], string>;
+
+/**
+ * Resolve user IDs to display names: members list first, then getUser for anyone missing
+ * Lookups that fail fall back to the user ID
+ */
+class AuthorDirectory {
+  private readonly names = new Map<string, Promise<string>>();
+  private members: Promise<void> | null = null;
+
+  constructor(
+    private readonly client: SwitchXCore,
+    private readonly communityId: string,
+    private readonly requestOptions?: RequestOptions
+  ) {}
+
+  async resolve(userId: string): Promise<string> {
+    if (!userId) return '';
+
+    this.members ??= this.loadMembers();
+    await this.members;
+
+    let name = this.names.get(userId);
+    if (!name) {
+      name = this.lookup(userId);
+      this.names.set(userId, name);
+    }
+    return name;
+  }
+
+  private async loadMembers(): Promise<void> {
+    try {
+      const members = await this.client.getMembers(this.communityId, this.requestOptions);
+      for (const member of members) {
+        if (member.name) this.names.set(member.userId, Promise.resolve(member.name));
+      }
+    } catch (error) {
+      if (!(error instanceof SwitchXError)) throw error;
+    }
+  }
+
+  private async lookup(userId: string): Promise<string> {
+    try {
+      const user = await this.client.getUser(userId, this.requestOptions);
+      return user.name || user.username || userId;
+    } catch (error) {
+      if (!(error instanceof SwitchXError)) throw error;
+      return userId;
+    }
+  }
+}
+
+function formatDate(sentDate: string): string {
+  const time = parseTime(sentDate);
+  return Number.isNaN(time) ? sentDate : new Date(time).toISOString();
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatRow(format: ExportFormat, row: ExportRow): string {
+  switch (format) {
+    case 'jsonl':
+      return `${JSON.stringify(row)}\n`;
+    case 'csv':
+      return `${CSV_COLUMNS.map((column) => csvField(row[column])).join(',')}\r\n`;
+    case 'markdown': {
+      const lines = [`**${row.author || 'Unknown'}** · ${row.sentDate}`, ''];
+      if (row.message) lines.push(row.message, '');
+      if (row.mediaUrl) lines.push(`[Attachment](${row.mediaUrl})`, '');
+      return `${lines.join('\n')}\n`;
+    }
+  }
+}
+
+/**
+ * Messages of the history within [since, until], newest first, each once
+ * Offsets shift when messages arrive mid-export, so a page can repeat messages already read
+ */
+async function* messagesInRange(
+  messages: AsyncIterable<Message>,
+  since: number | undefined,
+  until: number | undefined
+): AsyncGenerator<Message, void, undefined> {
+  const seen = new Set<string>();
+
+  for await (const message of messages) {
+    if (seen.has(message.id)) continue;
+    seen.add(message.id);
+
+    const sent = parseTime(message.sentDate);
+    if (!Number.isNaN(sent)) {
+      // History runs newest first, so nothing after this is in range
+      if (since !== undefined && sent < since) return;
+      if (until !== undefined && sent > until) continue;
+    }
+
+    yield message;
+  }
+}
+
+/**
+ * Stream a channel or group history in the requested format
+ * Yields the header (CSV columns or Markdown title) first, then one chunk per message
+ * Messages come oldest first once the whole range is read, or newest first page by page with newestFirst
+ * Reading stops at the first message older than since, so a recent range only fetches the pages it needs
+ * @param client - Client used for every request
+ * @param options - Conversation, format, date range and name resolution
+ * @param requestOptions - Optional signal, timeout and retry settings for every request
+ */
+export async function* exportConversation(
+  client: SwitchXCore,
+  options: ExportOptions,
+  requestOptions?: RequestOptions
+): AsyncGenerator<string, void, undefined> {
+  const { channelId, groupId, format, resolveNames = true, newestFirst = false, pageSize } = options;
+  if (!channelId === !groupId) {
+    throw new SwitchXValidationError('Pass exactly one of channelId or groupId');
+  }
+  if (!FORMATS.includes(format)) {
+    throw new SwitchXValidationError(`format must be one of ${FORMATS.join(', ')}, got ${String(format)}`);
+  }
+
+  const communityId = options.communityId || client.getDefaultCommunityId();
+  const since = toEpoch(options.since, 'since');
+  const until = toEpoch(options.until, 'until');
+
+  const history: AsyncIterable<Message> = channelId
+    ? client.iterateChannelMessages(channelId, communityId, { pageSize }, requestOptions)
+    : client.iterateGroupMessages(groupId as string, communityId, { pageSize }, requestOptions);
+
+  const authors = resolveNames && communityId
+    ? new AuthorDirectory(client, communityId, requestOptions)
+    : null;
+
+  if (format === 'csv') {
+    yield `${CSV_COLUMNS.join(',')}\r\n`;
+  } else if (format === 'markdown') {
+    const title = options.title || (channelId ? `Channel ${channelId}` : `Group ${groupId}`);
+    yield `# ${title}\n\n`;
+  }
+
+  let messages: Iterable<Message> | AsyncIterable<Message> = messagesInRange(history, since, until);
+  if (!newestFirst) {
+    const buffered: Message[] = [];
+    for await (const message of messages) buffered.push(message);
+    messages = buffered.reverse();
+  }
+
+  for await (const message of messages) {
+    yield formatRow(format, {
+      id: message.id,
+      sentDate: formatDate(message.sentDate),
+      userId: message.userId,
+      author: authors ? await authors.resolve(message.userId) : message.userId,
+      message: message.message,
+      mediaUrl: message.mediaUrl || ''
+    });
+  }
+}
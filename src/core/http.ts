@@ -0,0 +1,181 @@
+/**
+ * HTTP helpers shared by SwitchX clients
+ */
+
+import type { RequestOptions } from '../types';
+import {
+  SwitchXError,
+  SwitchXNetworkError,
+  SwitchXTimeoutError,
+  createHttpError,
+  parseRetryAfter
+} from './errors';
+import type { Decoder } from './decode';
+
+// Default timeouts (ms)
+export const DEFAULT_TIMEOUT = 30000;
+export const UPLOAD_TIMEOUT = 60000;
+export const PLATFORM_TIMEOUT = 10000;
+
+/**
+ * Internal request options
+ * Plain RequestInit plus a JSON body shortcut and an error message prefix
+ */
+export interface SwitchXRequestInit<T = unknown>
+  extends Omit<RequestInit, 'headers' | 'signal' | 'priority' | 'cache'>, RequestOptions {
+  headers?: Record<string, string>;
+  /** Serialized as the JSON request body (sets Content-Type) */
+  json?: unknown;
+  /** Prefix for error messages, e.g. "Failed to create channel" */
+  action?: string;
+  /** Schema the response body is checked against */
+  decoder?: Decoder<T>;
+  /**
+   * Resolve with the unread Response instead of the parsed body (streamed responses)
+   * The timeout then only covers the wait for response headers
+   */
+  rawResponse?: boolean;
+}
+
+/**
+ * Parse a response body as JSON, falling back to the raw text
+ * Empty bodies become undefined
+ */
+export function parseBodyText(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Build a SwitchXError from a failed fetch Response (consumes the body)
+ */
+export async function createResponseError(
+  response: Response,
+  action: string,
+  request: { method: string; url: string }
+): Promise<SwitchXError> {
+  let body: unknown;
+  try {
+    body = parseBodyText(await response.text());
+  } catch {
+    body = undefined;
+  }
+
+  const bodyRequestId = body && typeof body === 'object'
+    ? (body as Record<string, any>).requestId ?? (body as Record<string, any>).request_id
+    : undefined;
+
+  return createHttpError(action, {
+    status: response.status,
+    method: request.method,
+    url: request.url,
+    body,
+    requestId: response.headers.get('x-request-id')
+      ?? response.headers.get('x-correlation-id')
+      ?? (bodyRequestId !== undefined ? String(bodyRequestId) : undefined),
+    retryAfter: parseRetryAfter(response.headers.get('retry-after'))
+  });
+}
+
+/**
+ * Abort signal for a single attempt: follows the caller's signal and fires on timeout
+ */
+export interface RequestSignal {
+  signal: AbortSignal;
+  /** Timeout applied to this attempt, in milliseconds (0 = none) */
+  timeout: number;
+  /** Whether the timeout fired */
+  timedOut(): boolean;
+  /** Stop the timer but keep following the caller's signal (streamed bodies) */
+  clearTimer(): void;
+  /** Clear the timer and detach from the caller's signal */
+  cleanup(): void;
+}
+
+/**
+ * Combine a caller's AbortSignal with a timeout
+ * @param parent - Signal passed by the caller (optional)
+ * @param timeout - Timeout in milliseconds, 0 or undefined disables it
+ */
+export function createRequestSignal(parent?: AbortSignal, timeout = 0): RequestSignal {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    onAbort();
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = timeout > 0
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    timeout,
+    timedOut: () => timedOut,
+    clearTimer: () => {
+      if (timer !== undefined) clearTimeout(timer);
+    },
+    cleanup: () => {
+      if (timer !== undefined) clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+/**
+ * Error to throw when the caller aborted: the signal's reason, or a standard AbortError
+ */
+export function createAbortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Throw if the caller's signal is already aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * Map an error thrown while sending a request (not an HTTP error status) to what callers see
+ * - caller aborted: the abort reason, untouched
+ * - timeout fired: SwitchXTimeoutError
+ * - anything else: SwitchXNetworkError
+ */
+export function toTransportError(
+  error: any,
+  action: string,
+  request: { method: string; url: string },
+  parent: AbortSignal | undefined,
+  requestSignal: RequestSignal
+): unknown {
+  if (error instanceof SwitchXError) {
+    return error;
+  }
+  if (parent?.aborted) {
+    return createAbortError(parent);
+  }
+  if (requestSignal.timedOut()) {
+    return new SwitchXTimeoutError(`${action}: timed out after ${requestSignal.timeout}ms`, {
+      ...request,
+      cause: error
+    });
+  }
+  return new SwitchXNetworkError(`${action}: ${error?.message || 'Network error'}`, {
+    ...request,
+    cause: error
+  });
+}
@@ -16,13 +16,125 @@ import type {
   Group,
   ChatHistory,
   PaginationOptions,
-  SearchOptions
+  SearchOptions,
+  IterateOptions,
+  MessageQuery,
+  MessagePage,
+  ExportOptions,
+  MediaMessageOptions,
+  BatchOptions,
+  BatchReport,
+  WatchOptions,
+  AIChatMessage,
+  AIChatOptions,
+  AIChatResponse,
+  AIImageOptions,
+  AIImageResponse,
+  SwitchXEndpoints,
+  SwitchXClientOptions,
+  RetryOptions,
+  RequestOptions,
+  SwitchXService,
+  SwitchXMiddleware,
+  SwitchXRequest,
+  RateLimitMetrics,
+  SwitchXCacheResource,
+  UnauthorizedHandler,
+  Friend,
+  Heading,
+  CurrentUser,
+  CommunityDetails,
+  Notification,
+  Role,
+  CommunityMembership,
+  StickerPack,
+  Sticker,
+  SentMessage
 } from '../types';
-
-// API Configuration
-const SWITCH_API_BASE_URL = "https://gateway.switchx.org/swagger";
-const SWITCH_CHAT_API_URL = "https://chat-api.switchx.org";
-const SWITCH_UPLOAD_URL = "https://de.switchx.dev/upload/stream";
+import { resolveEndpoints } from './config';
+import { SwitchXError, SwitchXAuthError, SwitchXValidationError } from './errors';
+import {
+  DEFAULT_TIMEOUT,
+  UPLOAD_TIMEOUT,
+  parseBodyText,
+  createResponseError,
+  createRequestSignal,
+  toTransportError
+} from './http';
+import { resolveRetryPolicy, withRetry } from './retry';
+import { composeMiddleware } from './middleware';
+import { RateLimiter } from './limiter';
+import { ResponseCache } from './cache';
+import { RequestDeduper } from './dedupe';
+import { SwitchXCommunity } from './community';
+import { decodeResponse } from './decode';
+import { paginate, toEpoch, collectMessageWindow } from './pagination';
+import { exportConversation } from './export';
+import { runBatch } from './batch';
+import { SwitchXWatcher, pollingTransport } from './watch';
+import { SwitchXAgent } from './agent';
+import type { AgentOptions } from './agent';
+import { AIConversation } from './conversation';
+import type { ConversationOptions } from './conversation';
+import {
+  AIChatStream,
+  validateChatOptions,
+  validateImageOptions,
+  toChatResponse,
+  toImageResponse
+} from './ai';
+import {
+  MessageMediaType,
+  IMAGE_HEADER_BYTES,
+  describeMedia,
+  extensionFromMimeType,
+  mimeTypeFromFilename
+} from './media';
+import {
+  communityResponse,
+  communityDetailsResponse,
+  membersResponse,
+  channelsResponse,
+  groupsResponse,
+  createdChannelResponse,
+  createdGroupResponse,
+  updatedChannelResponse,
+  updatedGroupResponse,
+  updatedCommunityResponse,
+  membershipResponse,
+  headingsResponse,
+  roleResponse,
+  communityUserResponse,
+  userResponse,
+  currentUserResponse,
+  friendsResponse,
+  friendsCountResponse,
+  notificationsResponse,
+  chatHistoryResponse,
+  messageSearchResponse,
+  sentMessageResponse,
+  forwardedMessagesResponse,
+  stickerPacksResponse,
+  stickerPackResponse,
+  stickersResponse,
+  uploadResponse
+} from './schemas';
+import {
+  toChannel,
+  toGroup,
+  toHeading,
+  toRole,
+  toMembership,
+  toFriend,
+  toCurrentUser,
+  toCommunityDetails,
+  toNotification,
+  toMessage,
+  toSentMessage,
+  toStickerPack,
+  toSticker
+} from './mappers';
+import type { SwitchXRequestInit } from './http';
 
 /**
  * Core SwitchX Client
@@ -31,16 +143,57 @@ const SWITCH_UPLOAD_URL = "https://de.switchx.dev/upload/stream";
  */
 export class SwitchXCore {
   private authToken: string;
+  protected readonly endpoints: SwitchXEndpoints;
+  protected readonly retryOptions: RetryOptions | false | undefined;
+  protected readonly timeout: number;
+  private readonly middleware: SwitchXMiddleware[];
+  private readonly fetchImpl: typeof fetch;
+  private readonly limiters: Partial<Record<SwitchXService, RateLimiter>> = {};
+  private readonly cache: ResponseCache | null;
+  private readonly inflight = new RequestDeduper();
+  private readonly onUnauthorized: UnauthorizedHandler | undefined;
+  private refreshing: Promise<string | null> | null = null;
+  protected readonly defaultCommunityId: string | undefined;
+  private readonly lenientDecoding: boolean;
 
   /**
    * Create a new SwitchX client
    * @param token - User authentication token (from SwitchX WebApp)
+   * @param options - Optional client settings (environment, endpoints, retry, timeout, fetch),
+   *   or just the default community ID
+   *
+   * @example
+   * const client = new SwitchXCore(token, {
+   *   environment: 'staging',
+   *   endpoints: { chat: 'http://localhost:4000' }
+   * });
+   * const scoped = new SwitchXCore(token, communityId);
    */
-  constructor(token: string) {
+  constructor(token: string, options: SwitchXClientOptions | string = {}) {
     if (!token) {
-      throw new Error('Token is required. Pass user token from SwitchX WebApp.');
+      throw new SwitchXValidationError('Token is required. Pass user token from SwitchX WebApp.');
+    }
+    if (typeof options === 'string') {
+      options = { defaultCommunityId: options };
     }
     this.authToken = token;
+    this.defaultCommunityId = options.defaultCommunityId || undefined;
+    this.endpoints = resolveEndpoints(options);
+    this.retryOptions = options.retry;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.middleware = [...(options.middleware || [])];
+    // Resolve global fetch lazily so polyfills installed after construction still apply
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+
+    const rateLimits = options.rateLimit || {};
+    for (const service of Object.keys(rateLimits) as SwitchXService[]) {
+      const limits = rateLimits[service];
+      if (limits) this.limiters[service] = new RateLimiter(limits);
+    }
+
+    this.cache = options.cache ? new ResponseCache(options.cache === true ? {} : options.cache, token) : null;
+    this.onUnauthorized = options.onUnauthorized;
+    this.lenientDecoding = options.validation === 'lenient';
   }
 
   /**
@@ -51,143 +204,422 @@ export class SwitchXCore {
   }
 
   /**
-   * Internal fetch helper
+   * Replace the token used for subsequent requests
+   * @param token - New authentication token
+   */
+  setToken(token: string): void {
+    if (!token) {
+      throw new SwitchXValidationError('Token is required');
+    }
+    this.authToken = token;
+    this.cache?.setToken(token);
+  }
+
+  /**
+   * Get the community used when a method's communityId is omitted
+   */
+  getDefaultCommunityId(): string | undefined {
+    return this.defaultCommunityId;
+  }
+
+  /**
+   * Get a client scoped to one community
+   * @param communityId - Community ID (defaults to the client's community)
+   *
+   * @example
+   * const community = client.community(communityId);
+   * const channels = await community.channels.list();
+   * await community.channels.send(channels[0].id, 'Hello!');
+   */
+  community(communityId?: string): SwitchXCommunity {
+    return new SwitchXCommunity(this, this.resolveCommunityId(communityId));
+  }
+
+  /**
+   * Get the resolved base URL of every service
+   */
+  getEndpoints(): SwitchXEndpoints {
+    return { ...this.endpoints };
+  }
+
+  /**
+   * Add a request/response middleware
+   * Middleware runs in registration order for every request (including each retry)
+   * @param middleware - Middleware function
+   *
+   * @example
+   * client.use(async (request, next) => {
+   *   request.headers['X-App-Version'] = '1.4.0';
+   *   return next(request);
+   * });
+   */
+  use(middleware: SwitchXMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Get queue metrics for every rate-limited service
+   *
+   * @example
+   * const { chat } = client.getQueueMetrics();
+   * console.log(chat?.queued.bulk, chat?.active);
+   */
+  getQueueMetrics(): Partial<Record<SwitchXService, RateLimitMetrics>> {
+    const metrics: Partial<Record<SwitchXService, RateLimitMetrics>> = {};
+    for (const [service, limiter] of Object.entries(this.limiters) as Array<[SwitchXService, RateLimiter]>) {
+      metrics[service] = limiter.getMetrics();
+    }
+    return metrics;
+  }
+
+  /**
+   * Drop cached reads
+   * Mutations already invalidate what they change - use this after out-of-band updates
+   * @param resource - Resource to clear (all resources when omitted)
+   * @param id - Community or user ID (every entry of the resource when omitted)
+   *
+   * @example
+   * await client.invalidateCache('channels', communityId);
+   * await client.invalidateCache(); // everything
+   */
+  async invalidateCache(resource?: SwitchXCacheResource, id?: string): Promise<void> {
+    await this.cache?.invalidate(resource, id);
+  }
+
+  /**
+   * Serve a read from the cache, loading and storing it on a miss
+   */
+  private async cached<T>(
+    resource: SwitchXCacheResource,
+    id: string,
+    requestOptions: RequestOptions | undefined,
+    load: () => Promise<T>
+  ): Promise<T> {
+    if (!this.cache) return load();
+
+    if (requestOptions?.cache !== false) {
+      const hit = await this.cache.get<T>(resource, id);
+      if (hit !== undefined) return hit;
+    }
+
+    const value = await load();
+    await this.cache.set(resource, id, value);
+    return value;
+  }
+
+  /**
+   * Find which service a URL belongs to (longest matching base URL)
+   */
+  private serviceForUrl(url: string): SwitchXService | undefined {
+    let match: SwitchXService | undefined;
+    let matchLength = 0;
+
+    for (const [service, baseUrl] of Object.entries(this.endpoints) as Array<[SwitchXService, string]>) {
+      if (url.startsWith(baseUrl) && baseUrl.length > matchLength) {
+        match = service;
+        matchLength = baseUrl.length;
+      }
+    }
+
+    return match;
+  }
+
+  /**
+   * Internal request helper
+   * Identical concurrent GETs share one call unless dedupe is false
+   * With a decoder, the body is checked against it (SwitchXDecodeError in strict mode)
+   */
+  protected async request<T>(url: string, options: SwitchXRequestInit<T> = {}): Promise<T> {
+    const { decoder, ...init } = options;
+    const method = (init.method || 'GET').toUpperCase();
+
+    const data = method !== 'GET' || init.dedupe === false
+      ? await this.execute<unknown>(url, init)
+      : await this.inflight.run(
+        `${method} ${url} ${JSON.stringify(init.headers || {})}`,
+        init.signal,
+        (signal) => this.execute<unknown>(url, { ...init, signal })
+      );
+
+    if (!decoder) return data as T;
+
+    const action = init.action || 'Request failed';
+    return decodeResponse(decoder, data, { action, method, url }, this.lenientDecoding);
+  }
+
+  /**
+   * Run a request, replaying it once with a fresh token after a 401
+   */
+  private async execute<T>(url: string, options: SwitchXRequestInit): Promise<T> {
+    const token = this.authToken;
+
+    try {
+      return await this.attempt<T>(url, options);
+    } catch (error) {
+      if (!this.onUnauthorized || !(error instanceof SwitchXAuthError) || error.status !== 401) {
+        throw error;
+      }
+
+      // Another request may already have refreshed the token
+      const freshToken = this.authToken !== token ? this.authToken : await this.refreshToken(error);
+      if (!freshToken || freshToken === token) {
+        throw error;
+      }
+
+      return this.attempt<T>(url, options);
+    }
+  }
+
+  /**
+   * Ask onUnauthorized for a new token, sharing one call between concurrent 401s
    */
-  private async fetch<T>(url: string, options: RequestInit = {}): Promise<T> {
-    const response = await fetch(url, {
-      ...options,
+  private refreshToken(error: SwitchXAuthError): Promise<string | null> {
+    if (!this.refreshing) {
+      this.refreshing = Promise.resolve()
+        .then(() => this.onUnauthorized!(error))
+        .then((token) => {
+          if (!token) return null;
+          this.setToken(token);
+          return token;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Run a request with retries
+   * Retries transient failures (GET by default, other methods when opted in)
+   * Each attempt waits for the service's rate limiter, if one is configured
+   */
+  private async attempt<T>(url: string, options: SwitchXRequestInit): Promise<T> {
+    const method = (options.method || 'GET').toUpperCase();
+    const policy = resolveRetryPolicy(this.retryOptions, options.retry, method === 'GET');
+    const service = this.serviceForUrl(url);
+    const limiter = service && this.limiters[service];
+
+    return withRetry(
+      (attempt) => limiter
+        ? limiter.schedule(() => this.send<T>(url, options, attempt, service), options.priority, options.signal)
+        : this.send<T>(url, options, attempt, service),
+      policy,
+      options.signal
+    );
+  }
+
+  /**
+   * Send a single request through the middleware chain
+   * Adds auth headers, serializes JSON bodies, applies the timeout and throws SwitchXError on failure
+   */
+  private async send<T>(
+    url: string,
+    options: SwitchXRequestInit,
+    attempt: number,
+    service: SwitchXService | undefined
+  ): Promise<T> {
+    const {
+      json,
+      action = 'Request failed',
+      headers,
+      signal,
+      timeout = this.timeout,
+      retry: _retry,
+      priority: _priority,
+      cache: _cache,
+      dedupe: _dedupe,
+      rawResponse,
+      ...init
+    } = options;
+    const method = (init.method || 'GET').toUpperCase();
+    const requestSignal = createRequestSignal(signal, timeout);
+
+    const outgoing: SwitchXRequest = {
+      url,
+      method,
       headers: {
         'Accept': '*/*',
         'Authorization': this.authToken,
-        ...options.headers,
+        ...(json !== undefined && { 'Content-Type': 'application/json' }),
+        ...headers,
       },
-    });
+      body: json !== undefined ? JSON.stringify(json) : init.body,
+      service,
+      action,
+      attempt,
+      signal: requestSignal.signal,
+    };
+
+    const handler = composeMiddleware(this.middleware, (request) => this.fetchImpl(request.url, {
+      ...init,
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    }));
+
+    let streaming = false;
+
+    try {
+      const response = await handler(outgoing);
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      if (!response.ok) {
+        throw await createResponseError(response, action, { method, url });
+      }
+
+      if (rawResponse) {
+        // The caller's signal must still be able to cancel the body
+        streaming = true;
+        return response as T;
+      }
+
+      return parseBodyText(await response.text()) as T;
+    } catch (error) {
+      throw toTransportError(error, action, { method, url }, signal, requestSignal);
+    } finally {
+      if (streaming) {
+        requestSignal.clearTimer();
+      } else {
+        requestSignal.cleanup();
+      }
     }
+  }
 
-    return response.json() as Promise<T>;
+  /**
+   * Fall back to the default community, throwing a validation error when neither is set
+   */
+  private resolveCommunityId(communityId?: string): string {
+    const resolved = communityId || this.defaultCommunityId;
+    if (!resolved) {
+      throw new SwitchXValidationError('Community ID is required. Pass it or set defaultCommunityId on the client.');
+    }
+    return resolved;
   }
 
   /**
    * Get community information
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getCommunity(communityId: string): Promise<CommunityInfo> {
-    if (!communityId) {
-      throw new Error('Community ID is required.');
-    }
+  async getCommunity(communityId?: string, requestOptions?: RequestOptions): Promise<CommunityInfo> {
+    communityId = this.resolveCommunityId(communityId);
 
-    const data = await this.fetch<any>(
-      `${SWITCH_API_BASE_URL}/community/v1/community?communityId=${communityId}`
-    );
+    return this.cached('community', communityId, requestOptions, async () => {
+      const data = await this.request(
+        `${this.endpoints.gateway}/swagger/community/v1/community?communityId=${communityId}`,
+        { action: 'Failed to get community', decoder: communityResponse, ...requestOptions }
+      );
 
-    return {
-      id: data.result.communityId,
-      name: data.result.communityName,
-      description: data.result.communityDescription,
-      imageUrl: data.result.communityProfileUrl,
-      memberCount: data.result.member,
-      username: data.result.communityUsername,
-      link: data.result.link,
-    };
+      return {
+        id: data.result.communityId,
+        name: data.result.communityName,
+        description: data.result.communityDescription,
+        imageUrl: data.result.communityProfileUrl,
+        memberCount: data.result.member,
+        username: data.result.communityUsername,
+        link: data.result.link,
+      };
+    });
   }
 
   /**
    * Get all members of the community
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getMembers(communityId: string): Promise<CommunityMember[]> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async getMembers(communityId?: string, requestOptions?: RequestOptions): Promise<CommunityMember[]> {
+    communityId = this.resolveCommunityId(communityId);
 
-    const data = await this.fetch<any>(
-      `${SWITCH_API_BASE_URL}/community/v1/community/users?communityId=${communityId}`
-    );
+    return this.cached('members', communityId, requestOptions, async () => {
+      const data = await this.request(
+        `${this.endpoints.gateway}/swagger/community/v1/community/users?communityId=${communityId}`,
+        { action: 'Failed to get members', decoder: membersResponse, ...requestOptions }
+      );
 
-    return data.result.userInfoList.map((user: any) => ({
-      userId: user.id,
-      name: user.name,
-      imageUrl: user.imageUrl,
-      bot: user.bot
-    }));
+      return data.result.userInfoList.map((user) => ({
+        userId: user.id,
+        name: user.name,
+        imageUrl: user.imageUrl,
+        bot: user.bot
+      }));
+    });
   }
 
   /**
    * Get information about a specific user
    * @param userId - User ID to fetch
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getUser(userId: string): Promise<UserInfo> {
-    const data = await this.fetch<any>(
-      `${SWITCH_CHAT_API_URL}/user/info?userId=${userId}`
-    );
+  async getUser(userId: string, requestOptions?: RequestOptions): Promise<UserInfo> {
+    return this.cached('user', userId, requestOptions, async () => {
+      const data = await this.request(
+        `${this.endpoints.chat}/user/info?userId=${userId}`,
+        { action: 'Failed to get user', decoder: userResponse, ...requestOptions }
+      );
 
-    return {
-      userId: data.id,
-      name: data.name,
-      imageUrl: data.imageUrl,
-      username: data.username,
-      bio: data.bio || '',
-      bot: data.bot || false
-    };
+      return {
+        userId: data.id,
+        name: data.name,
+        imageUrl: data.imageUrl,
+        username: data.username,
+        bio: data.bio || '',
+        bot: data.bot || false
+      };
+    });
   }
 
   /**
    * Get all channels in the community
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getChannels(communityId: string): Promise<Channel[]> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async getChannels(communityId?: string, requestOptions?: RequestOptions): Promise<Channel[]> {
+    communityId = this.resolveCommunityId(communityId);
 
-    const data = await this.fetch<any>(
-      `${SWITCH_API_BASE_URL}/community/v1/community/channel/all?communityId=${communityId}`
-    );
+    return this.cached('channels', communityId, requestOptions, async () => {
+      const data = await this.request(
+        `${this.endpoints.gateway}/swagger/community/v1/community/channel/all?communityId=${communityId}`,
+        { action: 'Failed to get channels', decoder: channelsResponse, ...requestOptions }
+      );
 
-    return data.result.map((channel: any) => ({
-      id: channel.channelId,
-      name: channel.channelName,
-      emoji: channel.icon
-    }));
+      return data.result.map(toChannel);
+    });
   }
 
   /**
    * Get all groups in the community
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getGroups(communityId: string): Promise<Group[]> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async getGroups(communityId?: string, requestOptions?: RequestOptions): Promise<Group[]> {
+    communityId = this.resolveCommunityId(communityId);
 
-    const data = await this.fetch<any>(
-      `${SWITCH_API_BASE_URL}/community/v1/community/group/all?communityId=${communityId}`
-    );
+    return this.cached('groups', communityId, requestOptions, async () => {
+      const data = await this.request(
+        `${this.endpoints.gateway}/swagger/community/v1/community/group/all?communityId=${communityId}`,
+        { action: 'Failed to get groups', decoder: groupsResponse, ...requestOptions }
+      );
 
-    return data.result.map((group: any) => ({
-      id: group.groupId,
-      name: group.groupName,
-      emoji: group.icon
-    }));
+      return data.result.map(toGroup);
+    });
   }
 
   /**
    * Get chat history from a channel
    * @param channelId - Channel ID
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
    * @param options - Pagination options
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async getChannelMessages(
     channelId: string,
-    communityId: string,
-    options: PaginationOptions = {}
+    communityId?: string,
+    options: PaginationOptions = {},
+    requestOptions?: RequestOptions
   ): Promise<ChatHistory> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+    communityId = this.resolveCommunityId(communityId);
 
     const params = new URLSearchParams({
       communityId,
@@ -196,38 +628,32 @@ export class SwitchXCore {
       pageOffset: (options.offset || 0).toString()
     });
 
-    const data = await this.fetch<any>(
-      `${SWITCH_CHAT_API_URL}/v1/message/community-messages?${params}`
+    const data = await this.request(
+      `${this.endpoints.chat}/v1/message/community-messages?${params}`,
+      { action: 'Failed to get channel messages', decoder: chatHistoryResponse, ...requestOptions }
     );
 
     return {
-      messages: (data.messages || []).map((msg: any) => ({
-        id: msg.id,
-        message: msg.message || '',
-        userId: msg.userId,
-        sentDate: msg.sentDate,
-        mediaUrl: msg.mediaLink || msg.media_link || '',
-        isMedia: Boolean(msg.mediaLink || msg.media_link)
-      })),
-      totalCount: data.totalCount || 0,
-      hasMore: data.hasMore || false
+      messages: data.messages.map(toMessage),
+      totalCount: data.totalCount,
+      hasMore: data.hasMore
     };
   }
 
   /**
    * Get chat history from a group
    * @param groupId - Group ID
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
    * @param options - Pagination options
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async getGroupMessages(
     groupId: string,
-    communityId: string,
-    options: PaginationOptions = {}
+    communityId?: string,
+    options: PaginationOptions = {},
+    requestOptions?: RequestOptions
   ): Promise<ChatHistory> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+    communityId = this.resolveCommunityId(communityId);
 
     const params = new URLSearchParams({
       communityId,
@@ -236,38 +662,77 @@ export class SwitchXCore {
       offset: (options.offset || 0).toString()
     });
 
-    const data = await this.fetch<any>(
-      `${SWITCH_CHAT_API_URL}/v1/message/community-messages?${params}`
+    const data = await this.request(
+      `${this.endpoints.chat}/v1/message/community-messages?${params}`,
+      { action: 'Failed to get group messages', decoder: chatHistoryResponse, ...requestOptions }
     );
 
     return {
-      messages: (data.messages || []).map((msg: any) => ({
-        id: msg.id,
-        message: msg.message || '',
-        userId: msg.userId,
-        sentDate: msg.sentDate,
-        mediaUrl: msg.mediaLink || msg.media_link || '',
-        isMedia: Boolean(msg.mediaLink || msg.media_link)
-      })),
-      totalCount: data.totalCount || 0,
-      hasMore: data.hasMore || false
+      messages: data.messages.map(toMessage),
+      totalCount: data.totalCount,
+      hasMore: data.hasMore
+    };
+  }
+
+  /**
+   * Get a page of messages from a channel or group, paged by message ID or time
+   * Unlike offset paging, cursors don't skip or repeat messages when new ones arrive
+   * The history API only pages by offset, so this reads pages from the newest message until it passes the window:
+   * the deeper the cursor, the more pages it costs
+   * @param query - channelId or groupId, plus an optional window (before/after message ID, since/until time) and limit
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXNotFoundError if a cursor message is not in the conversation (e.g. it was deleted)
+   *
+   * @example
+   * // Infinite scroll: load older messages
+   * const page = await client.getMessages({ channelId, limit: 50 });
+   * const older = await client.getMessages({ channelId, before: page.before, limit: 50 });
+   *
+   * // Incremental sync: fetch what arrived since the last sync
+   * const fresh = await client.getMessages({ channelId, after: lastSeenId });
+   */
+  async getMessages(query: MessageQuery, requestOptions?: RequestOptions): Promise<MessagePage> {
+    const communityId = this.resolveCommunityId(query.communityId);
+    if (!query.channelId === !query.groupId) {
+      throw new SwitchXValidationError('Pass exactly one of channelId or groupId');
+    }
+
+    const limit = query.limit && query.limit > 0 ? query.limit : 100;
+    const window = {
+      before: query.before,
+      after: query.after,
+      since: toEpoch(query.since, 'since'),
+      until: toEpoch(query.until, 'until')
+    };
+
+    const { messages, hasMore } = await collectMessageWindow(async (offset) => {
+      const history = query.channelId
+        ? await this.getChannelMessages(query.channelId, communityId, { limit, offset }, requestOptions)
+        : await this.getGroupMessages(query.groupId!, communityId, { limit, offset }, requestOptions);
+      return { items: history.messages, hasMore: history.hasMore };
+    }, window, limit, limit);
+
+    return {
+      messages,
+      hasMore,
+      ...(messages.length > 0 && { before: messages[messages.length - 1].id, after: messages[0].id })
     };
   }
 
   /**
    * Search messages in the community
    * @param searchString - Text to search for
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
    * @param options - Search options
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async searchMessages(
     searchString: string,
-    communityId: string,
-    options: SearchOptions = {}
+    communityId?: string,
+    options: SearchOptions = {},
+    requestOptions?: RequestOptions
   ): Promise<Message[]> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+    communityId = this.resolveCommunityId(communityId);
 
     const params = new URLSearchParams({
       communityId,
@@ -277,16 +742,17 @@ export class SwitchXCore {
       searchString
     });
 
-    const data = await this.fetch<any[]>(
-      `${SWITCH_CHAT_API_URL}/v1/search/community-data?${params}`
+    const data = await this.request(
+      `${this.endpoints.chat}/v1/search/community-data?${params}`,
+      { action: 'Failed to search messages', decoder: messageSearchResponse, ...requestOptions }
     );
 
-    return data.map((item: any) => ({
+    return data.map((item) => ({
       id: item.id,
       message: item.message,
       userId: item.userId,
       sentDate: item.sentDate,
-      mediaUrl: item.media_link || '',
+      mediaUrl: item.media_link,
       isMedia: Boolean(item.media_link)
     }));
   }
@@ -294,243 +760,199 @@ export class SwitchXCore {
   /**
    * Check if a user is an admin
    * @param userId - User ID to check
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async isAdmin(userId: string, communityId: string): Promise<boolean> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async isAdmin(userId: string, communityId?: string, requestOptions?: RequestOptions): Promise<boolean> {
+    communityId = this.resolveCommunityId(communityId);
 
-    const data = await this.fetch<any>(
-      `${SWITCH_API_BASE_URL}/community/v1/community/user?communityId=${communityId}&userId=${userId}`
+    const data = await this.request(
+      `${this.endpoints.gateway}/swagger/community/v1/community/user?communityId=${communityId}&userId=${userId}`,
+      { action: 'Failed to check admin status', decoder: communityUserResponse, ...requestOptions }
     );
 
-    return data.result?.admin || false;
+    return data.result.admin;
   }
 
   /**
    * Get headings for a community
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
    * @param additional - Whether to fetch additional information
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getHeadings(communityId: string, additional = false): Promise<any[]> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async getHeadings(communityId?: string, additional = false, requestOptions?: RequestOptions): Promise<Heading[]> {
+    communityId = this.resolveCommunityId(communityId);
 
     const params = new URLSearchParams({
       communityId,
       additional: additional.toString()
     });
 
-    const data = await this.fetch<any[]>(
-      `${SWITCH_CHAT_API_URL}/headings?${params}`
+    const data = await this.request(
+      `${this.endpoints.chat}/headings?${params}`,
+      { action: 'Failed to get headings', decoder: headingsResponse, ...requestOptions }
     );
 
-    return data;
+    return data.map(toHeading);
   }
 
   /**
    * Get user's friends list
    * @param userId - User ID to get friends for
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getFriends(userId: string): Promise<any[]> {
-    const data = await this.fetch<any[]>(
-      `https://gateway.switchx.org/user-service/api/users/friends/getFriendsByUserId?userId=${userId}`
+  async getFriends(userId: string, requestOptions?: RequestOptions): Promise<Friend[]> {
+    const data = await this.request(
+      `${this.endpoints.gateway}/user-service/api/users/friends/getFriendsByUserId?userId=${userId}`,
+      { action: 'Failed to get friends', decoder: friendsResponse, ...requestOptions }
     );
 
-    return data.map((friend: any) => ({
-      userId: friend.id,
-      username: friend.user_name,
-      name: friend.name,
-      email: friend.email,
-      profileColour: friend.profile_colour,
-      imageUrl: friend.imageurl,
-      status: friend.status
-    }));
+    return data.map(toFriend);
   }
 
   /**
    * Get all friends of the authenticated user
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getAllFriends(): Promise<any[]> {
-    const data = await this.fetch<any[]>(
-      `https://gateway.switchx.org/user-service/api/users/friends/getAllFriends`
+  async getAllFriends(requestOptions?: RequestOptions): Promise<Friend[]> {
+    const data = await this.request(
+      `${this.endpoints.gateway}/user-service/api/users/friends/getAllFriends`,
+      { action: 'Failed to get friends', decoder: friendsResponse, ...requestOptions }
     );
 
-    return data.map((friend: any) => ({
-      userId: friend.id,
-      username: friend.user_name,
-      name: friend.name,
-      email: friend.email,
-      profileColour: friend.profile_colour,
-      imageUrl: friend.imageurl,
-      status: friend.status
-    }));
+    return data.map(toFriend);
   }
 
   /**
    * Get the number of friends for the authenticated user
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getFriendsCount(): Promise<number> {
-    const data = await this.fetch<{ count: number }>(
-      `https://gateway.switchx.org/user-service/api/users/friends/getNumberOfFriends`
+  async getFriendsCount(requestOptions?: RequestOptions): Promise<number> {
+    const data = await this.request(
+      `${this.endpoints.gateway}/user-service/api/users/friends/getNumberOfFriends`,
+      { action: 'Failed to get friends count', decoder: friendsCountResponse, ...requestOptions }
     );
-    return data.count || 0;
+    return data.count;
   }
 
   /**
    * Send a friend request to another user
    * @param userId - User ID to send friend request to
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXError if the request is rejected
    */
-  async sendFriendRequest(userId: string): Promise<boolean> {
-    try {
-      const response = await fetch(
-        `https://gateway.switchx.org/user-service/api/users/friends/connectFriend`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': this.authToken,
-            'Content-Type': 'application/json',
-            'accept': '*/*'
-          },
-          body: JSON.stringify({ friend_id: userId })
-        }
-      );
-
-      return response.ok;
-    } catch (error) {
-      console.error('Error sending friend request:', error);
-      return false;
-    }
+  async sendFriendRequest(userId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    await this.request<unknown>(
+      `${this.endpoints.gateway}/user-service/api/users/friends/connectFriend`,
+      {
+        method: 'POST',
+        json: { friend_id: userId },
+        action: 'Failed to send friend request',
+        ...requestOptions
+      }
+    );
+    return true;
   }
 
   /**
    * Accept a friend request from another user
    * @param userId - User ID whose friend request to accept
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXError if the request is rejected
    */
-  async acceptFriendRequest(userId: string): Promise<boolean> {
-    try {
-      const response = await fetch(
-        `https://gateway.switchx.org/user-service/api/users/friends/acceptFriendRequest`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': this.authToken,
-            'Content-Type': 'application/json',
-            'accept': '*/*'
-          },
-          body: JSON.stringify({
-            friend_id: userId,
-            decline: false
-          })
-        }
-      );
-
-      return response.ok;
-    } catch (error) {
-      console.error('Error accepting friend request:', error);
-      return false;
-    }
+  async acceptFriendRequest(userId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    await this.request<unknown>(
+      `${this.endpoints.gateway}/user-service/api/users/friends/acceptFriendRequest`,
+      {
+        method: 'POST',
+        json: {
+          friend_id: userId,
+          decline: false
+        },
+        action: 'Failed to accept friend request',
+        ...requestOptions
+      }
+    );
+    return true;
   }
 
   /**
    * Reject/unfriend a user
    * @param userId - User ID to reject/unfriend
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXError if the request is rejected
    */
-  async rejectFriend(userId: string): Promise<boolean> {
-    try {
-      const response = await fetch(
-        `https://gateway.switchx.org/user-service/api/users/friends/unfriend/${userId}`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': this.authToken,
-            'Content-Type': 'application/json',
-            'accept': '*/*'
-          }
-        }
-      );
-
-      return response.ok;
-    } catch (error) {
-      console.error('Error rejecting friend:', error);
-      return false;
-    }
+  async rejectFriend(userId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    await this.request<unknown>(
+      `${this.endpoints.gateway}/user-service/api/users/friends/unfriend/${userId}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        action: 'Failed to reject friend',
+        ...requestOptions
+      }
+    );
+    return true;
   }
 
   /**
    * Unsend a friend request or remove a friend
    * @param userId - User ID to unsend request to or unfriend
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXError if the request is rejected
    */
-  async unsentFriendRequest(userId: string): Promise<boolean> {
-    try {
-      const response = await fetch(
-        `https://gateway.switchx.org/user-service/api/users/friends/unsentFriendRequest`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': this.authToken,
-            'Content-Type': 'application/json',
-            'accept': '*/*'
-          },
-          body: JSON.stringify({ friend_id: userId })
-        }
-      );
-
-      return response.ok;
-    } catch (error) {
-      console.error('Error unsending friend request:', error);
-      return false;
-    }
+  async unsentFriendRequest(userId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    await this.request<unknown>(
+      `${this.endpoints.gateway}/user-service/api/users/friends/unsentFriendRequest`,
+      {
+        method: 'POST',
+        json: { friend_id: userId },
+        action: 'Failed to unsend friend request',
+        ...requestOptions
+      }
+    );
+    return true;
   }
 
   /**
    * Block a user
    * @param userId - User ID to block
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXError if the request is rejected
    */
-  async blockUser(userId: string): Promise<boolean> {
-    try {
-      const response = await fetch(
-        `https://gateway.switchx.org/user-service/api/users/friends/block`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': this.authToken,
-            'Content-Type': 'application/json',
-            'accept': '*/*'
-          },
-          body: JSON.stringify({ friend_id: userId })
-        }
-      );
-
-      return response.ok;
-    } catch (error) {
-      console.error('Error blocking user:', error);
-      return false;
-    }
+  async blockUser(userId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    await this.request<unknown>(
+      `${this.endpoints.gateway}/user-service/api/users/friends/block`,
+      {
+        method: 'POST',
+        json: { friend_id: userId },
+        action: 'Failed to block user',
+        ...requestOptions
+      }
+    );
+    return true;
   }
 
   /**
    * Send a message to a channel (uses user token)
    * @param channelId - Channel ID
    * @param message - Message text
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
    * @param options - Optional media link, media info, and status
+   * @param requestOptions - Optional signal, timeout and retry settings (retries are opt-in for this method)
    */
   async sendMessage(
     channelId: string,
     message: string,
-    communityId: string,
+    communityId?: string,
     options?: {
       mediaLink?: string;
       mediaInfo?: Record<string, any>;
-      status?: number; // 1=IMAGE, 2=VIDEO, 3=AUDIO, 7=DOCUMENT, 200=STICKER
-    }
-  ): Promise<any> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+      status?: MessageMediaType | number; // 1=IMAGE, 2=VIDEO, 3=AUDIO, 7=DOCUMENT, 200=STICKER
+    },
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    communityId = this.resolveCommunityId(communityId);
 
     const messageData: any = {
       communityId,
@@ -542,38 +964,27 @@ export class SwitchXCore {
     if (options?.status) messageData.status = options.status;
     if (options?.mediaInfo) messageData.mediaInfo = options.mediaInfo;
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/v1/message/create`, {
+    const data = await this.request(`${this.endpoints.chat}/v1/message/create`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify(messageData)
+      json: messageData,
+      action: 'Failed to send message',
+      decoder: sentMessageResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      try {
-        const errorJson = JSON.parse(errorText);
-        throw new Error(errorJson.message || 'Failed to send message');
-      } catch {
-        throw new Error('Failed to send message');
-      }
-    }
-
-    return response.json() as Promise<any[]>;
+    return toSentMessage(data);
   }
 
   /**
    * Create a new channel
    * @param name - Channel name
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
    * @param options - Optional settings
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async createChannel(
     name: string,
-    communityId: string,
+    communityId?: string,
     options?: {
       icon?: string;
       link?: string;
@@ -581,11 +992,10 @@ export class SwitchXCore {
       isPublic?: boolean;
       enabledFree?: boolean;
       enabledPublic?: boolean;
-    }
-  ): Promise<any> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+    },
+    requestOptions?: RequestOptions
+  ): Promise<Channel> {
+    communityId = this.resolveCommunityId(communityId);
 
     const channelData: any = {
       communityId,
@@ -602,74 +1012,61 @@ export class SwitchXCore {
     }
     if (options?.miniAppLink) channelData.miniAppLink = options.miniAppLink;
 
-    const response = await fetch(`${SWITCH_API_BASE_URL}/community/v1/community/channel`, {
+    const result = await this.request(`${this.endpoints.gateway}/swagger/community/v1/community/channel`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify(channelData)
+      json: channelData,
+      action: 'Failed to create channel',
+      decoder: createdChannelResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to create channel: ${response.status}`);
-    }
+    await this.cache?.invalidate('channels', communityId);
 
-    const result: any = await response.json();
-    return result.result || result;
+    return toChannel(result);
   }
 
   /**
    * Delete a channel
    * @param channelId - Channel ID to delete
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async deleteChannel(channelId: string, communityId: string): Promise<any> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async deleteChannel(channelId: string, communityId?: string, requestOptions?: RequestOptions): Promise<void> {
+    communityId = this.resolveCommunityId(communityId);
 
     const params = new URLSearchParams({
       communityId,
       channelId
     });
 
-    const response = await fetch(`${SWITCH_API_BASE_URL}/community/v1/community/channel?${params}`, {
+    await this.request<unknown>(`${this.endpoints.gateway}/swagger/community/v1/community/channel?${params}`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      }
+      action: 'Failed to delete channel',
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to delete channel: ${response.status}`);
-    }
-
-    const result: any = await response.json();
-    return result.result || result;
+    await this.cache?.invalidate('channels', communityId);
   }
 
   /**
    * Create a new group
    * @param name - Group name
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
    * @param options - Optional settings
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async createGroup(
     name: string,
-    communityId: string,
+    communityId?: string,
     options?: {
       icon?: string;
       isPublic?: boolean;
       enabledFree?: boolean;
       enabledPublic?: boolean;
-    }
-  ): Promise<any> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+    },
+    requestOptions?: RequestOptions
+  ): Promise<Group> {
+    communityId = this.resolveCommunityId(communityId);
 
     const groupData: any = {
       communityId,
@@ -681,59 +1078,47 @@ export class SwitchXCore {
 
     if (options?.icon) groupData.icon = options.icon;
 
-    const response = await fetch(`${SWITCH_API_BASE_URL}/community/v1/community/group`, {
+    const result = await this.request(`${this.endpoints.gateway}/swagger/community/v1/community/group`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify(groupData)
+      json: groupData,
+      action: 'Failed to create group',
+      decoder: createdGroupResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to create group: ${response.status}`);
-    }
+    await this.cache?.invalidate('groups', communityId);
 
-    const result: any = await response.json();
-    return result.result || result;
+    return toGroup(result);
   }
 
   /**
    * Delete a group
    * @param groupId - Group ID to delete
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async deleteGroup(groupId: string, communityId: string): Promise<any> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async deleteGroup(groupId: string, communityId?: string, requestOptions?: RequestOptions): Promise<void> {
+    communityId = this.resolveCommunityId(communityId);
 
     const params = new URLSearchParams({
       communityId,
       groupId
     });
 
-    const response = await fetch(`${SWITCH_API_BASE_URL}/community/v1/community/group?${params}`, {
+    await this.request<unknown>(`${this.endpoints.gateway}/swagger/community/v1/community/group?${params}`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      }
+      action: 'Failed to delete group',
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to delete group: ${response.status}`);
-    }
-
-    const result: any = await response.json();
-    return result.result || result;
+    await this.cache?.invalidate('groups', communityId);
   }
 
   /**
    * Update community information
    * @param communityId - Community ID (required)
    * @param updates - Fields to update
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async updateCommunity(
     communityId: string,
@@ -762,97 +1147,112 @@ export class SwitchXCore {
       icon?: string;
       aiData?: Record<string, any>;
       commands?: Array<Record<string, any>>;
-    }
-  ): Promise<any> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+    },
+    requestOptions?: RequestOptions
+  ): Promise<CommunityDetails> {
+    communityId = this.resolveCommunityId(communityId);
 
     // First get current data
-    const currentData = await this.getCommunity(communityId);
+    const currentData = await this.getCommunity(communityId, { ...requestOptions, cache: false });
 
     // Merge with updates
     const body = { ...currentData, communityId, ...updates };
 
-    const response = await fetch(`${SWITCH_API_BASE_URL}/community/v1/community`, {
+    const result = await this.request(`${this.endpoints.gateway}/swagger/community/v1/community`, {
       method: 'PUT',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify(body)
+      json: body,
+      action: 'Failed to update community',
+      decoder: updatedCommunityResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to update community: ${response.status}`);
-    }
+    await this.cache?.invalidate('community', communityId);
+
+    return toCommunityDetails({ ...result, communityId: result.communityId || communityId });
+  }
+
+  /**
+   * Replace the community's commands setting
+   * Sends only the commands list, so the rest of the community record is left as it is
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param commands - Command descriptions shown to members
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  async updateCommunityCommands(
+    communityId: string | undefined,
+    commands: Array<Record<string, any>>,
+    requestOptions?: RequestOptions
+  ): Promise<void> {
+    communityId = this.resolveCommunityId(communityId);
+
+    await this.request<unknown>(`${this.endpoints.gateway}/swagger/community/v1/community`, {
+      method: 'PATCH',
+      json: { communityId, commands },
+      action: 'Failed to update community commands',
+      ...requestOptions
+    });
 
-    const result: any = await response.json();
-    return result.result || result;
+    await this.cache?.invalidate('community', communityId);
   }
 
   /**
    * Add a member to community
    * @param userId - User ID to add
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
    * @param options - Optional settings
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async addMember(
     userId: string,
-    communityId: string,
+    communityId?: string,
     options?: {
       admin?: boolean;
-    }
-  ): Promise<any> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+    },
+    requestOptions?: RequestOptions
+  ): Promise<CommunityMembership> {
+    communityId = this.resolveCommunityId(communityId);
+    const admin = options?.admin || false;
 
     const body = {
       communityMembers: [
         {
           communityId,
           userId,
-          admin: options?.admin || false
+          admin
         }
       ]
     };
 
-    const response = await fetch(`${SWITCH_API_BASE_URL}/community/v1/community/users`, {
+    const result = await this.request(`${this.endpoints.gateway}/swagger/community/v1/community/users`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify(body)
+      json: body,
+      action: 'Failed to add member',
+      decoder: membershipResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to add member: ${response.status}`);
-    }
+    await this.cache?.invalidate('members', communityId);
+    await this.cache?.invalidate('community', communityId);
 
-    const result: any = await response.json();
-    return result.result || result;
+    return toMembership(result, { userId, communityId, admin });
   }
 
   /**
    * Create a role in community
    * @param name - Role name
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
    * @param options - Optional settings
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async createRole(
     name: string,
-    communityId: string,
+    communityId?: string,
     options?: {
       colour?: string;
-    }
-  ): Promise<any> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+    },
+    requestOptions?: RequestOptions
+  ): Promise<Role> {
+    communityId = this.resolveCommunityId(communityId);
 
     const body = {
       communityId,
@@ -860,25 +1260,18 @@ export class SwitchXCore {
       roleColour: options?.colour || '#808080'
     };
 
-    const response = await fetch(
-      `${SWITCH_API_BASE_URL}/community/v1/community/roles/add?communityId=${communityId}`,
+    const result = await this.request(
+      `${this.endpoints.gateway}/swagger/community/v1/community/roles/add?communityId=${communityId}`,
       {
         method: 'POST',
-        headers: {
-          'Authorization': this.authToken,
-          'Content-Type': 'application/json',
-          'accept': '*/*'
-        },
-        body: JSON.stringify(body)
+        json: body,
+        action: 'Failed to create role',
+        decoder: roleResponse,
+        ...requestOptions
       }
     );
 
-    if (!response.ok) {
-      throw new Error(`Failed to create role: ${response.status}`);
-    }
-
-    const result: any = await response.json();
-    return result.result || result;
+    return toRole(result, communityId);
   }
 
   // ===== Message Operations =====
@@ -887,146 +1280,114 @@ export class SwitchXCore {
    * Create a reaction on a message
    * @param messageId - Message ID to react to
    * @param emoji - Emoji to react with
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async createReaction(messageId: string, emoji: string, communityId: string): Promise<void> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async createReaction(messageId: string, emoji: string, communityId?: string, requestOptions?: RequestOptions): Promise<void> {
+    communityId = this.resolveCommunityId(communityId);
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/chat/v1/react/create`, {
+    await this.request<unknown>(`${this.endpoints.chat}/chat/v1/react/create`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify({
+      json: {
         messageId,
         emoji,
         communityId
-      })
+      },
+      action: 'Failed to create reaction',
+      ...requestOptions
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to create reaction: ${response.status}`);
-    }
   }
 
   /**
    * Delete a reaction from a message
    * @param messageId - Message ID to remove reaction from
    * @param emoji - Emoji to remove
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async deleteReaction(messageId: string, emoji: string, communityId: string): Promise<void> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async deleteReaction(messageId: string, emoji: string, communityId?: string, requestOptions?: RequestOptions): Promise<void> {
+    communityId = this.resolveCommunityId(communityId);
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/chat/v1/react/delete`, {
+    await this.request<unknown>(`${this.endpoints.chat}/chat/v1/react/delete`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify({
+      json: {
         messageId,
         emoji,
         communityId
-      })
+      },
+      action: 'Failed to delete reaction',
+      ...requestOptions
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to delete reaction: ${response.status}`);
-    }
   }
 
   /**
    * Delete a message
    * @param messageId - Message ID to delete
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async deleteMessage(messageId: string): Promise<void> {
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/v1/message/${messageId}`, {
+  async deleteMessage(messageId: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.request<unknown>(`${this.endpoints.chat}/v1/message/${messageId}`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      }
+      action: 'Failed to delete message',
+      ...requestOptions
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to delete message: ${response.status}`);
-    }
   }
 
   /**
    * Edit a message
    * @param messageId - Message ID to edit
    * @param newContent - New message content
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async editMessage(messageId: string, newContent: string): Promise<any> {
-    const response = await fetch(`https://gateway.switchx.org/v1/message/?id=${messageId}`, {
+  async editMessage(messageId: string, newContent: string, requestOptions?: RequestOptions): Promise<SentMessage> {
+    const data = await this.request(`${this.endpoints.gateway}/v1/message/?id=${messageId}`, {
       method: 'PUT',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify({
+      json: {
         message: newContent,
         id: messageId
-      })
+      },
+      action: 'Failed to edit message',
+      decoder: sentMessageResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to edit message: ${response.status}`);
-    }
-
-    return response.json() as Promise<any[]>;
+    return toSentMessage(data);
   }
 
   /**
    * Pin/unpin a message
    * @param messageId - Message ID to pin
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async pinMessage(messageId: string, communityId: string): Promise<void> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async pinMessage(messageId: string, communityId?: string, requestOptions?: RequestOptions): Promise<void> {
+    communityId = this.resolveCommunityId(communityId);
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/chat/v1/pin`, {
+    await this.request<unknown>(`${this.endpoints.chat}/chat/v1/pin`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify({
+      json: {
         messageId,
         communityId
-      })
+      },
+      action: 'Failed to pin message',
+      ...requestOptions
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to pin message: ${response.status}`);
-    }
   }
 
   /**
    * Forward a message to another channel/group or user
    * @param messageId - Message ID(s) to forward (can be single or array)
    * @param options - Target groupChannelId or receiverId
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async forwardMessage(
     messageId: string | string[],
     options: {
       groupChannelId?: string;
       receiverId?: string;
-    }
-  ): Promise<any> {
+    },
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage[]> {
     const messageIdStr = Array.isArray(messageId) ? messageId.join(',') : messageId;
     const queryParams = [];
 
@@ -1039,34 +1400,31 @@ export class SwitchXCore {
 
     const queryString = queryParams.length > 0 ? `?${queryParams.join('&')}` : '';
 
-    const response = await fetch(
-      `https://gateway.switchx.org/v1/message/forward/${messageIdStr}${queryString}`,
+    const data = await this.request(
+      `${this.endpoints.gateway}/v1/message/forward/${messageIdStr}${queryString}`,
       {
         method: 'POST',
-        headers: {
-          'Authorization': this.authToken,
-          'accept': '*/*'
-        }
+        action: 'Failed to forward message',
+        decoder: forwardedMessagesResponse,
+        ...requestOptions
       }
     );
 
-    if (!response.ok) {
-      throw new Error(`Failed to forward message: ${response.status}`);
-    }
-
-    return response.json() as Promise<any[]>;
+    return data.map(toSentMessage);
   }
 
   // ===== User & Community Operations =====
 
   /**
    * Get current user details
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getCurrentUser(): Promise<any> {
-    const data = await this.fetch<any>(
-      `https://gateway.switchx.org/user-service/api/user`
+  async getCurrentUser(requestOptions?: RequestOptions): Promise<CurrentUser> {
+    const data = await this.request(
+      `${this.endpoints.gateway}/user-service/api/user`,
+      { action: 'Failed to get current user', decoder: currentUserResponse, ...requestOptions }
     );
-    return data;
+    return toCurrentUser(data);
   }
 
   /**
@@ -1075,12 +1433,15 @@ export class SwitchXCore {
    * @param userId - User ID
    * @param groupId - Optional group ID to join
    * @param referredByUserId - Optional referrer user ID
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXError if the request is rejected
    */
   async joinCommunity(
     communityId: string,
     userId: string,
     groupId?: string,
-    referredByUserId?: string
+    referredByUserId?: string,
+    requestOptions?: RequestOptions
   ): Promise<boolean> {
     const queryParams = new URLSearchParams({
       communityId,
@@ -1090,33 +1451,34 @@ export class SwitchXCore {
     if (groupId) queryParams.append('groupId', groupId);
     if (referredByUserId) queryParams.append('referredByUserId', referredByUserId);
 
-    const response = await fetch(
-      `https://gateway.switchx.org/v1/community/joinCommunity?${queryParams}`,
+    await this.request<unknown>(
+      `${this.endpoints.gateway}/v1/community/joinCommunity?${queryParams}`,
       {
         method: 'POST',
-        headers: {
-          'Authorization': this.authToken,
-          'accept': '*/*'
-        }
+        action: 'Failed to join community',
+        ...requestOptions
       }
     );
 
-    return response.ok;
+    await this.cache?.invalidate('members', communityId);
+    await this.cache?.invalidate('community', communityId);
+
+    return true;
   }
 
   /**
    * Get detailed community information
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getCommunityDetails(communityId: string): Promise<any> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async getCommunityDetails(communityId?: string, requestOptions?: RequestOptions): Promise<CommunityDetails> {
+    communityId = this.resolveCommunityId(communityId);
 
-    const data = await this.fetch<any>(
-      `${SWITCH_API_BASE_URL}/community/v1/community?communityId=${communityId}`
+    const data = await this.request(
+      `${this.endpoints.gateway}/swagger/community/v1/community?communityId=${communityId}`,
+      { action: 'Failed to get community details', decoder: communityDetailsResponse, ...requestOptions }
     );
-    return data;
+    return toCommunityDetails(data.result);
   }
 
   /**
@@ -1124,37 +1486,35 @@ export class SwitchXCore {
    * @param userId - User ID
    * @param limit - Number of notifications to fetch
    * @param offset - Offset for pagination
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async getNotifications(
     userId: string,
     limit: number = 100,
-    offset: number = 0
-  ): Promise<any> {
-    const data = await this.fetch<any>(
-      `${SWITCH_CHAT_API_URL}/notification?limit=${limit}&offset=${offset}&userId=${userId}`
+    offset: number = 0,
+    requestOptions?: RequestOptions
+  ): Promise<Notification[]> {
+    const data = await this.request(
+      `${this.endpoints.chat}/notification?limit=${limit}&offset=${offset}&userId=${userId}`,
+      { action: 'Failed to get notifications', decoder: notificationsResponse, ...requestOptions }
     );
-    return data;
+    return data.map(toNotification);
   }
 
   /**
    * Mark all notifications as read
    * @param userId - User ID
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async markAllNotificationsAsRead(userId: string): Promise<void> {
-    const response = await fetch(
-      `${SWITCH_CHAT_API_URL}/notification/mark-all-read?userId=${userId}`,
+  async markAllNotificationsAsRead(userId: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.request<unknown>(
+      `${this.endpoints.chat}/notification/mark-all-read?userId=${userId}`,
       {
         method: 'POST',
-        headers: {
-          'Authorization': this.authToken,
-          'accept': '*/*'
-        }
+        action: 'Failed to mark notifications as read',
+        ...requestOptions
       }
     );
-
-    if (!response.ok) {
-      throw new Error(`Failed to mark notifications as read: ${response.status}`);
-    }
   }
 
   // ===== Channel & Group Operations =====
@@ -1162,6 +1522,7 @@ export class SwitchXCore {
   /**
    * Update channel information
    * @param channel - Channel object with updated fields
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async updateChannel(channel: {
     channelId: string;
@@ -1184,35 +1545,36 @@ export class SwitchXCore {
     textbox?: boolean;
     linkBased?: boolean;
     link?: string;
-  }): Promise<any> {
-    const response = await fetch(`${SWITCH_API_BASE_URL}/community/v1/community/channel`, {
+  }, requestOptions?: RequestOptions): Promise<Channel> {
+    const result = await this.request(`${this.endpoints.gateway}/swagger/community/v1/community/channel`, {
       method: 'PUT',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify(channel)
+      json: channel,
+      action: 'Failed to update channel',
+      decoder: updatedChannelResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to update channel: ${response.status}`);
-    }
+    await this.cache?.invalidate('channels', channel.communityId);
 
-    return response.json() as Promise<any[]>;
+    return toChannel({
+      channelId: result.channelId || channel.channelId,
+      channelName: result.channelName || channel.channelName,
+      icon: result.icon || channel.icon || ''
+    });
   }
 
   /**
    * Update group information
    * @param groupId - Group ID to update
    * @param groupName - Group name
-   * @param communityId - Community ID
+   * @param communityId - Community ID (defaults to the client's community)
    * @param options - Optional group settings
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async updateGroup(
     groupId: string,
     groupName: string,
-    communityId: string,
+    communityId?: string,
     options?: {
       enabledPublic?: boolean;
       allowMemberToJoin?: boolean;
@@ -1221,8 +1583,11 @@ export class SwitchXCore {
       allowedContentEnabledForUsers?: string[];
       disappearingMessages?: string;
       thread?: boolean;
-    }
-  ): Promise<any> {
+    },
+    requestOptions?: RequestOptions
+  ): Promise<Group> {
+    communityId = this.resolveCommunityId(communityId);
+
     const requestBody = {
       groupId,
       groupName,
@@ -1236,61 +1601,53 @@ export class SwitchXCore {
       thread: options?.thread !== undefined ? options.thread : true
     };
 
-    const response = await fetch(`${SWITCH_API_BASE_URL}/community/v1/community/group`, {
+    const result = await this.request(`${this.endpoints.gateway}/swagger/community/v1/community/group`, {
       method: 'PUT',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify(requestBody)
+      json: requestBody,
+      action: 'Failed to update group',
+      decoder: updatedGroupResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to update group: ${response.status}`);
-    }
+    await this.cache?.invalidate('groups', communityId);
 
-    return response.json() as Promise<any[]>;
+    return toGroup({
+      groupId: result.groupId || groupId,
+      groupName: result.groupName || groupName,
+      icon: result.icon || requestBody.icon
+    });
   }
 
   /**
    * Mark channel as read
    * @param communityId - Community ID
    * @param channelId - Channel ID
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXError if the request is rejected
    */
-  async markChannelAsRead(communityId: string, channelId: string): Promise<boolean> {
-    const response = await fetch(
-      `${SWITCH_CHAT_API_URL}/v1/message/reset/unread-stat?communityId=${communityId}&channelId=${channelId}`,
-      {
-        method: 'GET',
-        headers: {
-          'Authorization': this.authToken,
-          'accept': '*/*'
-        }
-      }
+  async markChannelAsRead(communityId: string, channelId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    await this.request<unknown>(
+      `${this.endpoints.chat}/v1/message/reset/unread-stat?communityId=${communityId}&channelId=${channelId}`,
+      { action: 'Failed to mark channel as read', ...requestOptions }
     );
 
-    return response.ok;
+    return true;
   }
 
   /**
    * Mark group as read
    * @param communityId - Community ID
    * @param groupId - Group ID
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXError if the request is rejected
    */
-  async markGroupAsRead(communityId: string, groupId: string): Promise<boolean> {
-    const response = await fetch(
-      `${SWITCH_CHAT_API_URL}/v1/message/reset/unread-stat?communityId=${communityId}&groupId=${groupId}`,
-      {
-        method: 'GET',
-        headers: {
-          'Authorization': this.authToken,
-          'accept': '*/*'
-        }
-      }
+  async markGroupAsRead(communityId: string, groupId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    await this.request<unknown>(
+      `${this.endpoints.chat}/v1/message/reset/unread-stat?communityId=${communityId}&groupId=${groupId}`,
+      { action: 'Failed to mark group as read', ...requestOptions }
     );
 
-    return response.ok;
+    return true;
   }
 
   // ===== AI Operations =====
@@ -1298,73 +1655,144 @@ export class SwitchXCore {
   /**
    * Chat with Gemini AI
    * @param messages - Array of message objects with role and content
-   * @param options - Optional settings (model, temperature, etc.)
+   * @param options - Optional settings (model, temperature, tools, etc.); prefer streamChatWithAI over stream: true
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXValidationError for out-of-range options (unknown models only log a warning)
    */
   async chatWithAI(
-    messages: Array<{ role: string; content: string }>,
-    options?: {
-      model?: string;
-      temperature?: number;
-      max_tokens?: number;
-      stream?: boolean;
-      thinking_budget?: number;
+    messages: AIChatMessage[],
+    options?: AIChatOptions & { stream?: boolean },
+    requestOptions?: RequestOptions
+  ): Promise<AIChatResponse> {
+    if (options?.stream) {
+      return this.streamChatWithAI(messages, options, requestOptions).final();
     }
-  ): Promise<any> {
-    const response = await fetch('https://de.switchx.dev/ai/completions', {
+
+    validateChatOptions(options);
+
+    const data = await this.request<unknown>(`${this.endpoints.ai}/completions`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify({
-        model: options?.model || 'gemini-2.5-flash',
-        messages,
-        temperature: options?.temperature || 0.7,
-        max_tokens: options?.max_tokens,
-        stream: options?.stream || false,
-        thinking_budget: options?.thinking_budget || 250
-      })
+      json: this.aiChatBody(messages, options, false),
+      action: 'AI chat failed',
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`AI chat failed: ${response.status}`);
-    }
+    return toChatResponse(data);
+  }
 
-    return response.json();
+  /**
+   * Chat with Gemini AI, streaming the response as it is generated
+   * Works in browsers and Node.js; abort requestOptions.signal (or call cancel()) to stop
+   * @param messages - Array of message objects with role and content
+   * @param options - Optional settings (model, temperature, etc.)
+   * @param requestOptions - Optional signal, timeout and retry settings (the timeout covers the wait for the first byte)
+   * @throws SwitchXValidationError for out-of-range options (unknown models only log a warning)
+   *
+   * @example
+   * const stream = client.streamChatWithAI([{ role: 'user', content: 'Summarize this channel' }]);
+   * for await (const delta of stream) render(delta);
+   * const { text, usage, finishReason } = await stream.final();
+   */
+  streamChatWithAI(
+    messages: AIChatMessage[],
+    options?: AIChatOptions,
+    requestOptions?: RequestOptions
+  ): AIChatStream {
+    validateChatOptions(options);
+
+    return new AIChatStream((signal) => this.request<Response>(`${this.endpoints.ai}/completions`, {
+      method: 'POST',
+      json: this.aiChatBody(messages, options, true),
+      headers: { 'Accept': 'text/event-stream' },
+      action: 'AI chat failed',
+      ...requestOptions,
+      signal,
+      rawResponse: true
+    }), requestOptions?.signal);
+  }
+
+  /**
+   * Request body for the completions endpoint
+   */
+  private aiChatBody(
+    messages: AIChatMessage[],
+    options: AIChatOptions = {},
+    stream: boolean
+  ): Record<string, unknown> {
+    return {
+      model: options.model || 'gemini-2.5-flash',
+      messages,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.max_tokens,
+      stream,
+      thinking_budget: options.thinking_budget ?? 250,
+      ...(options.tools?.length && {
+        tools: options.tools.map(({ name, description, parameters }) => ({
+          type: 'function',
+          function: { name, description, parameters }
+        })),
+        tool_choice: options.tool_choice ?? 'auto'
+      })
+    };
   }
 
   /**
    * Generate image with Gemini AI
    * @param prompt - Text prompt for image generation
    * @param options - Optional settings
+   * @param requestOptions - Optional signal, timeout and retry settings
+   * @throws SwitchXValidationError for an empty prompt or invalid options
+   *
+   * @example
+   * const { images, text } = await client.generateImage('A lighthouse at dusk, watercolor');
+   * const src = `data:${images[0].mimeType};base64,${images[0].data}`;
    */
   async generateImage(
     prompt: string,
-    options?: {
-      response_modalities?: string[];
-      images_base64?: Array<{ data: string; mime_type?: string }>;
-    }
-  ): Promise<any> {
-    const response = await fetch('https://de.switchx.dev/ai/generate-image', {
+    options?: AIImageOptions,
+    requestOptions?: RequestOptions
+  ): Promise<AIImageResponse> {
+    validateImageOptions(prompt, options);
+
+    const data = await this.request<unknown>(`${this.endpoints.ai}/generate-image`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'Content-Type': 'application/json',
-        'accept': '*/*'
-      },
-      body: JSON.stringify({
+      json: {
         prompt,
         response_modalities: options?.response_modalities || ['TEXT', 'IMAGE'],
         images_base64: options?.images_base64
-      })
+      },
+      action: 'Image generation failed',
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Image generation failed: ${response.status}`);
-    }
+    return toImageResponse(data);
+  }
 
-    return response.json();
+  /**
+   * Create an agent that answers with chatWithAI and calls tools along the way
+   * @param options - System prompt, tools, step budget and chat settings
+   * @throws SwitchXValidationError for an invalid step budget or tool
+   *
+   * @example
+   * const agent = client.agent({ tools: sdkTools(client), maxSteps: 4 });
+   * const { text, steps, stopReason } = await agent.run('Which channel discusses billing?');
+   */
+  agent(options?: AgentOptions): SwitchXAgent {
+    return new SwitchXAgent(this, options);
+  }
+
+  /**
+   * Start a multi-turn AI conversation that keeps its history under a token budget
+   * Restore a saved one with AIConversation.fromJSON(client, snapshot)
+   * @param options - System prompt, token budget, trim or summarize, and chat settings
+   * @throws SwitchXValidationError for an invalid budget or strategy
+   *
+   * @example
+   * const conversation = client.conversation({ system: 'Answer briefly.', strategy: 'summarize' });
+   * const { text } = await conversation.send('Hi!');
+   */
+  conversation(options?: ConversationOptions): AIConversation {
+    return new AIConversation(this, options);
   }
 
   // ===== File Upload APIs =====
@@ -1373,123 +1801,247 @@ export class SwitchXCore {
    * Upload a file (browser-compatible, works with File/Blob)
    * @param file - File or Blob to upload
    * @param filename - Optional filename (auto-generated if not provided)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async uploadFile(file: File | Blob, filename?: string): Promise<string> {
-    try {
-      const formData = new FormData();
-      const name = filename || `upload_${Date.now()}.${file.type.split('/')[1] || 'file'}`;
+  async uploadFile(file: File | Blob, filename?: string, requestOptions?: RequestOptions): Promise<string> {
+    const name = filename || `upload_${Date.now()}.${file.type.split('/')[1] || 'file'}`;
+
+    return this.uploadBlob(file, name, 'Failed to upload file', requestOptions);
+  }
 
-      formData.append('files', file, name);
+  /**
+   * Upload a Blob as multipart form data and return its URL
+   * @param action - Prefix for error messages
+   */
+  protected async uploadBlob(
+    blob: Blob,
+    filename: string,
+    action: string,
+    requestOptions?: RequestOptions
+  ): Promise<string> {
+    const formData = new FormData();
+    formData.append('files', blob, filename);
+
+    const url = `${this.endpoints.upload}/stream`;
+    const data = await this.request(url, {
+      method: 'POST',
+      body: formData,
+      action,
+      timeout: Math.max(this.timeout, UPLOAD_TIMEOUT),
+      decoder: uploadResponse,
+      ...requestOptions
+    });
 
-      const response = await fetch(SWITCH_UPLOAD_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': this.authToken,
-          'Accept': '*/*'
-        },
-        body: formData
-      });
+    if (data.files.length > 0) {
+      return data.files[0].url;
+    }
 
-      if (!response.ok) {
-        throw new Error(`Upload failed: ${response.status}`);
-      }
+    throw new SwitchXError(`${action}: No URL returned from upload`, {
+      method: 'POST',
+      url,
+      body: data
+    });
+  }
+
+  // ===== Media Messages =====
+
+  /**
+   * Upload an image and send it to a channel
+   * mediaInfo includes the image dimensions when the header is PNG, GIF, JPEG or WebP
+   * @param channelId - Channel ID
+   * @param file - Image File or Blob
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Optional caption, file name and MIME type
+   * @param requestOptions - Optional signal, timeout and retry settings
+   *
+   * @example
+   * const input = document.querySelector('input[type=file]');
+   * await client.sendImage(channelId, input.files[0], communityId, { caption: 'Release banner' });
+   */
+  async sendImage(
+    channelId: string,
+    file: File | Blob,
+    communityId?: string,
+    options?: MediaMessageOptions,
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    return this.sendMedia(MessageMediaType.Image, channelId, file, communityId, options, requestOptions);
+  }
+
+  /**
+   * Upload a video and send it to a channel
+   * @param channelId - Channel ID
+   * @param file - Video File or Blob
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Optional caption, file name and MIME type
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  async sendVideo(
+    channelId: string,
+    file: File | Blob,
+    communityId?: string,
+    options?: MediaMessageOptions,
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    return this.sendMedia(MessageMediaType.Video, channelId, file, communityId, options, requestOptions);
+  }
 
-      const data: any = await response.json();
+  /**
+   * Upload an audio file and send it to a channel
+   * @param channelId - Channel ID
+   * @param file - Audio File or Blob
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Optional caption, file name and MIME type
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  async sendAudio(
+    channelId: string,
+    file: File | Blob,
+    communityId?: string,
+    options?: MediaMessageOptions,
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    return this.sendMedia(MessageMediaType.Audio, channelId, file, communityId, options, requestOptions);
+  }
 
-      if (data?.files && data.files.length > 0) {
-        return data.files[0].url;
+  /**
+   * Upload a document and send it to a channel
+   * @param channelId - Channel ID
+   * @param file - Document File or Blob
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Optional caption, file name and MIME type
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  async sendDocument(
+    channelId: string,
+    file: File | Blob,
+    communityId?: string,
+    options?: MediaMessageOptions,
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    return this.sendMedia(MessageMediaType.Document, channelId, file, communityId, options, requestOptions);
+  }
+
+  /**
+   * Send a sticker to a channel (nothing is uploaded)
+   * @param channelId - Channel ID
+   * @param sticker - Sticker from getStickersFromPack
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  async sendSticker(
+    channelId: string,
+    sticker: Sticker,
+    communityId?: string,
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    return this.sendMessage(channelId, '', communityId, {
+      mediaLink: sticker.url,
+      status: MessageMediaType.Sticker,
+      mediaInfo: {
+        stickerId: sticker.id,
+        stickerPackId: sticker.stickerPackId,
+        name: sticker.name
       }
+    }, requestOptions);
+  }
 
-      throw new Error('No URL returned from upload');
-    } catch (error: any) {
-      throw new Error(`Failed to upload file: ${error.message}`);
-    }
+  /**
+   * Upload a media payload, derive its mediaInfo and send it as a message
+   * Nothing is sent if the upload fails
+   */
+  protected async sendMedia(
+    type: MessageMediaType,
+    channelId: string,
+    blob: Blob,
+    communityId?: string,
+    options: MediaMessageOptions = {},
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    communityId = this.resolveCommunityId(communityId);
+
+    const fileName = options.filename
+      || (typeof File !== 'undefined' && blob instanceof File ? blob.name : '')
+      || `upload_${Date.now()}.${extensionFromMimeType(options.mimeType || blob.type)}`;
+    const mimeType = options.mimeType || blob.type || mimeTypeFromFilename(fileName);
+
+    const header = type === MessageMediaType.Image
+      ? new Uint8Array(await blob.slice(0, IMAGE_HEADER_BYTES).arrayBuffer())
+      : undefined;
+    const mediaInfo = describeMedia({ fileName, mimeType, size: blob.size }, header);
+
+    const upload = blob.type === mimeType ? blob : new Blob([blob], { type: mimeType });
+    const mediaLink = await this.uploadBlob(upload, fileName, 'Failed to upload media', requestOptions);
+
+    return this.sendMessage(channelId, options.caption ?? '', communityId, {
+      mediaLink,
+      mediaInfo,
+      status: type
+    }, requestOptions);
   }
 
   // ===== Sticker Pack APIs =====
 
   /**
    * Get stickers installed in a community
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async getInstalledStickerPacks(communityId: string): Promise<any[]> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async getInstalledStickerPacks(communityId?: string, requestOptions?: RequestOptions): Promise<StickerPack[]> {
+    communityId = this.resolveCommunityId(communityId);
 
     const params = new URLSearchParams({ communityId });
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/v1/sticker/pack/installed?${params}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      }
+    const data = await this.request(`${this.endpoints.chat}/v1/sticker/pack/installed?${params}`, {
+      action: 'Failed to get installed sticker packs',
+      decoder: stickerPacksResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to get installed sticker packs: ${response.status}`);
-    }
-
-    return response.json() as Promise<any[]>;
+    return data.map(toStickerPack);
   }
 
   /**
    * Install a sticker pack to a community
    * @param stickerPackId - Sticker pack ID to install
-   * @param communityId - Community ID (required)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async installStickerPack(stickerPackId: string, communityId: string): Promise<any> {
-    if (!communityId) {
-      throw new Error('Community ID is required');
-    }
+  async installStickerPack(stickerPackId: string, communityId?: string, requestOptions?: RequestOptions): Promise<void> {
+    communityId = this.resolveCommunityId(communityId);
 
     const params = new URLSearchParams({
       stickerPackId,
       communityId
     });
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/v1/sticker/pack/install?${params}`, {
+    await this.request<unknown>(`${this.endpoints.chat}/v1/sticker/pack/install?${params}`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      }
+      action: 'Failed to install sticker pack',
+      ...requestOptions
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to install sticker pack: ${response.status}`);
-    }
-
-    return response.json() as Promise<any[]>;
   }
 
   /**
    * Uninstall a sticker pack
    * @param stickerPackId - Sticker pack ID to uninstall
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async uninstallStickerPack(stickerPackId: string): Promise<any> {
+  async uninstallStickerPack(stickerPackId: string, requestOptions?: RequestOptions): Promise<void> {
     const params = new URLSearchParams({ stickerPackId });
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/v1/sticker/pack/uninstall?${params}`, {
+    await this.request<unknown>(`${this.endpoints.chat}/v1/sticker/pack/uninstall?${params}`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      }
+      action: 'Failed to uninstall sticker pack',
+      ...requestOptions
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to uninstall sticker pack: ${response.status}`);
-    }
-
-    return response.json() as Promise<any[]>;
   }
 
   /**
    * Search for available sticker packs
    * @param query - Search query string
    * @param options - Search options (limit, offset, packType)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async searchStickerPacks(
     query: string,
@@ -1497,8 +2049,9 @@ export class SwitchXCore {
       limit?: number;
       offset?: number;
       packType?: string;
-    }
-  ): Promise<any[]> {
+    },
+    requestOptions?: RequestOptions
+  ): Promise<StickerPack[]> {
     const params = new URLSearchParams({
       query,
       limit: (options?.limit || 20).toString(),
@@ -1509,125 +2062,401 @@ export class SwitchXCore {
       params.append('packType', options.packType);
     }
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/v1/sticker/pack/search?${params}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      }
+    const data = await this.request(`${this.endpoints.chat}/v1/sticker/pack/search?${params}`, {
+      action: 'Failed to search sticker packs',
+      decoder: stickerPacksResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to search sticker packs: ${response.status}`);
-    }
-
-    return response.json() as Promise<any[]>;
+    return data.map(toStickerPack);
   }
 
   /**
    * Get stickers from a sticker pack
    * @param stickerPackId - Sticker pack ID
    * @param options - Pagination options (limit, offset)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async getStickersFromPack(
     stickerPackId: string,
     options?: {
       limit?: number;
       offset?: number;
-    }
-  ): Promise<any[]> {
+    },
+    requestOptions?: RequestOptions
+  ): Promise<Sticker[]> {
     const params = new URLSearchParams({
       stickerPackId,
       limit: (options?.limit || 50).toString(),
       offset: (options?.offset || 0).toString()
     });
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/v1/sticker?${params}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      }
+    const data = await this.request(`${this.endpoints.chat}/v1/sticker?${params}`, {
+      action: 'Failed to get stickers from pack',
+      decoder: stickersResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to get stickers from pack: ${response.status}`);
-    }
-
-    return response.json() as Promise<any[]>;
+    return data.map(toSticker);
   }
 
   /**
    * Get all available sticker packs
    * @param options - Pagination options (limit, offset)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
   async getStickerPacks(options?: {
     limit?: number;
     offset?: number;
-  }): Promise<any[]> {
+  }, requestOptions?: RequestOptions): Promise<StickerPack[]> {
     const params = new URLSearchParams({
       limit: (options?.limit || 50).toString(),
       offset: (options?.offset || 0).toString()
     });
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/v1/sticker/pack?${params}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      }
+    const data = await this.request(`${this.endpoints.chat}/v1/sticker/pack?${params}`, {
+      action: 'Failed to get sticker packs',
+      decoder: stickerPacksResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to get sticker packs: ${response.status}`);
-    }
-
-    return response.json() as Promise<any[]>;
+    return data.map(toStickerPack);
   }
 
   /**
    * Create a custom sticker pack
    * @param data - Sticker pack data (FormData)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async createStickerPack(data: FormData): Promise<any> {
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/v1/sticker/pack`, {
+  async createStickerPack(data: FormData, requestOptions?: RequestOptions): Promise<StickerPack> {
+    const result = await this.request(`${this.endpoints.chat}/v1/sticker/pack`, {
       method: 'POST',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      },
-      body: data
+      body: data,
+      action: 'Failed to create sticker pack',
+      decoder: stickerPackResponse,
+      ...requestOptions
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to create sticker pack: ${response.status}`);
-    }
-
-    return response.json() as Promise<any[]>;
+    return toStickerPack(result);
   }
 
   /**
    * Delete a sticker pack
    * @param id - Sticker pack ID to delete
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async deleteStickerPack(id: string): Promise<any> {
+  async deleteStickerPack(id: string, requestOptions?: RequestOptions): Promise<void> {
     const params = new URLSearchParams({ id });
 
-    const response = await fetch(`${SWITCH_CHAT_API_URL}/v1/sticker/pack?${params}`, {
+    await this.request<unknown>(`${this.endpoints.chat}/v1/sticker/pack?${params}`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': this.authToken,
-        'accept': '*/*'
-      }
+      action: 'Failed to delete sticker pack',
+      ...requestOptions
     });
+  }
+
+  // ===== Iterators =====
+  // Fetch page after page on demand; break out of the loop to stop early
 
-    if (!response.ok) {
-      throw new Error(`Failed to delete sticker pack: ${response.status}`);
+  /**
+   * Iterate over a channel's chat history
+   * @param channelId - Channel ID
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Page size (default 100) and maximum number of messages
+   * @param requestOptions - Optional signal, timeout and retry settings for every page
+   *
+   * @example
+   * for await (const message of client.iterateChannelMessages(channelId, communityId, { max: 500 })) {
+   *   console.log(message.message);
+   * }
+   */
+  iterateChannelMessages(
+    channelId: string,
+    communityId?: string,
+    options?: IterateOptions,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<Message, void, undefined> {
+    communityId = this.resolveCommunityId(communityId);
+
+    return paginate(async ({ limit, offset }) => {
+      const page = await this.getChannelMessages(channelId, communityId, { limit, offset }, requestOptions);
+      return { items: page.messages, hasMore: page.hasMore };
+    }, options, 100);
+  }
+
+  /**
+   * Iterate over a group's chat history
+   * @param groupId - Group ID
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Page size (default 100) and maximum number of messages
+   * @param requestOptions - Optional signal, timeout and retry settings for every page
+   */
+  iterateGroupMessages(
+    groupId: string,
+    communityId?: string,
+    options?: IterateOptions,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<Message, void, undefined> {
+    communityId = this.resolveCommunityId(communityId);
+
+    return paginate(async ({ limit, offset }) => {
+      const page = await this.getGroupMessages(groupId, communityId, { limit, offset }, requestOptions);
+      return { items: page.messages, hasMore: page.hasMore };
+    }, options, 100);
+  }
+
+  /**
+   * Iterate over every message matching a search
+   * @param searchString - Text to search for
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Page size (default 10) and maximum number of messages
+   * @param requestOptions - Optional signal, timeout and retry settings for every page
+   */
+  iterateSearchMessages(
+    searchString: string,
+    communityId?: string,
+    options?: IterateOptions,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<Message, void, undefined> {
+    communityId = this.resolveCommunityId(communityId);
+
+    return paginate(async ({ limit, page }) => ({
+      items: await this.searchMessages(searchString, communityId, { limit, page }, requestOptions)
+    }), options, 10);
+  }
+
+  /**
+   * Iterate over a user's notifications
+   * @param userId - User ID
+   * @param options - Page size (default 100) and maximum number of notifications
+   * @param requestOptions - Optional signal, timeout and retry settings for every page
+   */
+  iterateNotifications(
+    userId: string,
+    options?: IterateOptions,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<Notification, void, undefined> {
+    return paginate(async ({ limit, offset }) => ({
+      items: await this.getNotifications(userId, limit, offset, requestOptions)
+    }), options, 100);
+  }
+
+  /**
+   * Iterate over all available sticker packs
+   * @param options - Page size (default 50) and maximum number of packs
+   * @param requestOptions - Optional signal, timeout and retry settings for every page
+   */
+  iterateStickerPacks(
+    options?: IterateOptions,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<StickerPack, void, undefined> {
+    return paginate(async ({ limit, offset }) => ({
+      items: await this.getStickerPacks({ limit, offset }, requestOptions)
+    }), options, 50);
+  }
+
+  /**
+   * Iterate over every sticker pack matching a search
+   * @param query - Search query string
+   * @param options - Page size (default 20), maximum number of packs and pack type filter
+   * @param requestOptions - Optional signal, timeout and retry settings for every page
+   */
+  iterateSearchStickerPacks(
+    query: string,
+    options: IterateOptions & { packType?: string } = {},
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<StickerPack, void, undefined> {
+    const { packType, ...iterateOptions } = options;
+
+    return paginate(async ({ limit, offset }) => ({
+      items: await this.searchStickerPacks(query, { limit, offset, packType }, requestOptions)
+    }), iterateOptions, 20);
+  }
+
+  // ===== Live Events =====
+
+  /**
+   * Watch channels and groups for new, edited and deleted messages
+   * Polls by default (faster while messages arrive, slower when idle); pass options.transport to use another source
+   * @param options - Conversations to follow, polling intervals and transport
+   * @returns A started watcher - call stop() when done
+   *
+   * @example
+   * const watcher = client.watch({ channelIds: [channelId], interval: 2000 });
+   * watcher.on('message.created', ({ message }) => append(message));
+   * watcher.on('message.edited', ({ message }) => replace(message));
+   * watcher.on('message.deleted', ({ message }) => remove(message.id));
+   */
+  watch(options: WatchOptions): SwitchXWatcher {
+    const communityId = this.resolveCommunityId(options.communityId);
+    const conversations = [
+      ...(options.channelIds ?? []).map((id) => ({ type: 'channel' as const, id, communityId })),
+      ...(options.groupIds ?? []).map((id) => ({ type: 'group' as const, id, communityId }))
+    ];
+
+    if (conversations.length === 0) {
+      throw new SwitchXValidationError('Pass at least one channel or group ID to watch');
     }
 
-    return response.json() as Promise<any[]>;
+    const transport = options.transport ?? pollingTransport(this, options);
+    return new SwitchXWatcher(transport, conversations).start();
+  }
+
+  // ===== Batch Operations =====
+  // Requests go through the 'bulk' queue lane unless requestOptions.priority says otherwise
+
+  /**
+   * Delete several messages
+   * @param messageIds - Message IDs to delete
+   * @param options - Concurrency limit (default 5)
+   * @param requestOptions - Optional signal, timeout and retry settings for every request
+   * @returns Succeeded IDs and failed IDs with their errors
+   *
+   * @example
+   * const report = await client.deleteMessages(spamIds, { concurrency: 3 });
+   * for (const { item, error } of report.failed) console.warn(item, error.message);
+   */
+  async deleteMessages(
+    messageIds: string[],
+    options?: BatchOptions,
+    requestOptions?: RequestOptions
+  ): Promise<BatchReport<string>> {
+    const perRequest: RequestOptions = { priority: 'bulk', ...requestOptions };
+
+    return runBatch(
+      messageIds,
+      (messageId) => this.deleteMessage(messageId, perRequest),
+      options,
+      requestOptions?.signal
+    );
+  }
+
+  /**
+   * Add several members to a community
+   * @param userIds - User IDs to add
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Admin flag for every member and concurrency limit (default 5)
+   * @param requestOptions - Optional signal, timeout and retry settings for every request
+   * @returns Succeeded IDs and failed IDs with their errors
+   */
+  async addMembers(
+    userIds: string[],
+    communityId?: string,
+    options: BatchOptions & { admin?: boolean } = {},
+    requestOptions?: RequestOptions
+  ): Promise<BatchReport<string>> {
+    const resolvedId = this.resolveCommunityId(communityId);
+    const { admin, ...batchOptions } = options;
+    const perRequest: RequestOptions = { priority: 'bulk', ...requestOptions };
+
+    return runBatch(
+      userIds,
+      (userId) => this.addMember(userId, resolvedId, { admin }, perRequest),
+      batchOptions,
+      requestOptions?.signal
+    );
+  }
+
+  /**
+   * Install several sticker packs to a community
+   * @param stickerPackIds - Sticker pack IDs to install
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Concurrency limit (default 5)
+   * @param requestOptions - Optional signal, timeout and retry settings for every request
+   * @returns Succeeded IDs and failed IDs with their errors
+   */
+  async installStickerPacks(
+    stickerPackIds: string[],
+    communityId?: string,
+    options?: BatchOptions,
+    requestOptions?: RequestOptions
+  ): Promise<BatchReport<string>> {
+    const resolvedId = this.resolveCommunityId(communityId);
+    const perRequest: RequestOptions = { priority: 'bulk', ...requestOptions };
+
+    return runBatch(
+      stickerPackIds,
+      (stickerPackId) => this.installStickerPack(stickerPackId, resolvedId, perRequest),
+      options,
+      requestOptions?.signal
+    );
+  }
+
+  // ===== Export =====
+
+  /**
+   * Stream a channel or group history as JSONL, CSV or a Markdown transcript
+   * Messages are fetched page by page; user IDs are resolved to display names unless resolveNames is false
+   * @param options - channelId or groupId, format, optional date range and name resolution
+   * @param requestOptions - Optional signal, timeout and retry settings for every request
+   *
+   * @example
+   * // Node.js: write a CSV archive
+   * const csv = client.exportConversation({ channelId, format: 'csv', since: '2026-01-01' });
+   * await pipeline(Readable.from(csv), fs.createWriteStream('channel.csv'));
+   *
+   * // Browser: download a transcript
+   * const chunks = [];
+   * for await (const chunk of client.exportConversation({ groupId, format: 'markdown' })) chunks.push(chunk);
+   * const blob = new Blob(chunks, { type: 'text/markdown' });
+   */
+  exportConversation(
+    options: ExportOptions,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<string, void, undefined> {
+    return exportConversation(this, options, requestOptions);
   }
 }
 
+// Export endpoint profiles
+export { SWITCHX_ENVIRONMENTS, resolveEndpoints } from './config';
+
+// Export community facade
+export { SwitchXCommunity } from './community';
+
+// Export live event watcher
+export { SwitchXWatcher, pollingTransport } from './watch';
+
+// Export AI stream, models and the event-stream parser the stream reads with
+export { AIChatStream, AI_MODELS } from './ai';
+export { parseEventStream } from './sse';
+export type { ServerSentEvent } from './sse';
+
+// Export tool-calling agent
+export { SwitchXAgent, sdkTools, checkArguments } from './agent';
+export type {
+  AgentTool,
+  AgentToolContext,
+  AgentToolResult,
+  AgentStep,
+  AgentStopReason,
+  AgentRunResult,
+  AgentOptions
+} from './agent';
+
+// Export AI conversation sessions
+export { AIConversation, estimateMessageTokens } from './conversation';
+export type { ConversationOptions, ConversationSnapshot, ConversationStrategy } from './conversation';
+
+// Export media type codes
+export { MessageMediaType } from './media';
+
+// Export cache storages
+export { MemoryCacheStorage, LocalStorageCacheStorage, DEFAULT_CACHE_TTL } from './cache';
+
+// Export error classes
+export {
+  SwitchXError,
+  SwitchXDecodeError,
+  SwitchXWebhookError,
+  SwitchXAuthError,
+  SwitchXNotFoundError,
+  SwitchXRateLimitError,
+  SwitchXValidationError,
+  SwitchXNetworkError,
+  SwitchXTimeoutError
+} from './errors';
+export type { SwitchXErrorDetails, SwitchXDecodeIssue } from './errors';
+
 // Export types
 export * from '../types';
@@ -0,0 +1,144 @@
+/**
+ * Client-side rate limiting for SwitchX SDK
+ * Token bucket for request rate plus a concurrency cap, with priority lanes
+ */
+
+import type { RateLimitOptions, RateLimitMetrics, RequestPriority } from '../types';
+import { SwitchXValidationError } from './errors';
+import { createAbortError, throwIfAborted } from './http';
+
+interface QueuedTask {
+  start: () => void;
+}
+
+// Lanes in dequeue order
+const LANES: RequestPriority[] = ['interactive', 'bulk'];
+
+/**
+ * Throw SwitchXValidationError for limits that would never let a request start
+ */
+function validateLimits(options: RateLimitOptions): void {
+  const { requestsPerSecond, burst, maxConcurrent } = options;
+
+  if (requestsPerSecond !== undefined && !(Number.isFinite(requestsPerSecond) && requestsPerSecond > 0)) {
+    throw new SwitchXValidationError(`requestsPerSecond must be a positive number, got ${requestsPerSecond}`);
+  }
+  if (burst !== undefined && !(Number.isFinite(burst) && burst >= 1)) {
+    throw new SwitchXValidationError(`burst must be a number of at least 1, got ${burst}`);
+  }
+  if (maxConcurrent !== undefined && !(Number.isFinite(maxConcurrent) && maxConcurrent >= 1)) {
+    throw new SwitchXValidationError(`maxConcurrent must be a number of at least 1, got ${maxConcurrent}`);
+  }
+}
+
+/**
+ * Rate limiter for a single service
+ */
+export class RateLimiter {
+  private readonly rate: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private readonly queues: Record<RequestPriority, QueuedTask[]> = { interactive: [], bulk: [] };
+
+  constructor(options: RateLimitOptions = {}) {
+    validateLimits(options);
+
+    this.rate = options.requestsPerSecond ?? Infinity;
+    this.burst = options.burst ?? (Number.isFinite(this.rate) ? Math.max(1, this.rate) : Infinity);
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Run a task once a token and a concurrency slot are available
+   * @param task - Work to run (holds a concurrency slot until it settles)
+   * @param priority - Queue lane
+   * @param signal - Removes the task from the queue when aborted
+   */
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'interactive', signal?: AbortSignal): Promise<T> {
+    throwIfAborted(signal);
+
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.queues[priority];
+
+      const onAbort = () => {
+        const index = queue.indexOf(entry);
+        if (index !== -1) queue.splice(index, 1);
+        reject(createAbortError(signal!));
+      };
+
+      const entry: QueuedTask = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.drain();
+            });
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * Current queue lengths, in-flight count and available tokens
+   */
+  getMetrics(): RateLimitMetrics {
+    this.refill();
+    return {
+      queued: {
+        interactive: this.queues.interactive.length,
+        bulk: this.queues.bulk.length
+      },
+      active: this.active,
+      availableTokens: Number.isFinite(this.rate) ? Math.floor(this.tokens) : Infinity
+    };
+  }
+
+  private refill(): void {
+    if (!Number.isFinite(this.rate)) return;
+
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Start queued tasks while tokens and slots allow, then wait for the next token
+   */
+  private drain(): void {
+    while (this.active < this.maxConcurrent) {
+      const lane = LANES.find((name) => this.queues[name].length > 0);
+      if (!lane) return;
+
+      this.refill();
+      if (this.tokens < 1) {
+        this.waitForToken();
+        return;
+      }
+
+      if (Number.isFinite(this.rate)) this.tokens -= 1;
+      this.queues[lane].shift()!.start();
+    }
+  }
+
+  private waitForToken(): void {
+    if (this.timer !== undefined) return;
+
+    const delay = Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, delay);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Map decoded API payloads to SDK models (camelCase, stable field names)
+ */
+
+import type { Decoded } from './decode';
+import type {
+  channel,
+  group,
+  heading,
+  role,
+  friend,
+  notification,
+  message,
+  sentMessage,
+  stickerPack,
+  sticker,
+  currentUserResponse,
+  communityDetailsResponse,
+  membershipResponse
+} from './schemas';
+import type {
+  Channel,
+  Group,
+  Heading,
+  Role,
+  Friend,
+  Notification,
+  Message,
+  SentMessage,
+  StickerPack,
+  Sticker,
+  CurrentUser,
+  CommunityDetails,
+  CommunityMembership
+} from '../types';
+
+export function toChannel(raw: Decoded<typeof channel>): Channel {
+  return {
+    id: raw.channelId,
+    name: raw.channelName,
+    emoji: raw.icon
+  };
+}
+
+export function toGroup(raw: Decoded<typeof group>): Group {
+  return {
+    id: raw.groupId,
+    name: raw.groupName,
+    emoji: raw.icon
+  };
+}
+
+export function toHeading(raw: Decoded<typeof heading>): Heading {
+  return {
+    id: raw.id || raw.headingId,
+    name: raw.name || raw.headingName,
+    position: raw.position,
+    channels: raw.channels.map(toChannel),
+    groups: raw.groups.map(toGroup)
+  };
+}
+
+export function toRole(raw: Decoded<typeof role>, communityId: string): Role {
+  return {
+    id: raw.id || raw.roleId,
+    name: raw.roleName,
+    colour: raw.roleColour,
+    communityId: raw.communityId || communityId
+  };
+}
+
+export function toMembership(
+  raw: Decoded<typeof membershipResponse>,
+  request: CommunityMembership
+): CommunityMembership {
+  return {
+    userId: raw.userId || request.userId,
+    communityId: raw.communityId || request.communityId,
+    admin: raw.userId ? raw.admin : request.admin
+  };
+}
+
+export function toFriend(raw: Decoded<typeof friend>): Friend {
+  return {
+    userId: raw.id,
+    username: raw.user_name,
+    name: raw.name,
+    email: raw.email,
+    profileColour: raw.profile_colour,
+    imageUrl: raw.imageurl,
+    status: raw.status
+  };
+}
+
+export function toCurrentUser(raw: Decoded<typeof currentUserResponse>): CurrentUser {
+  return {
+    userId: raw.id,
+    username: raw.user_name,
+    name: raw.name,
+    email: raw.email,
+    imageUrl: raw.imageurl,
+    profileColour: raw.profile_colour,
+    bio: raw.bio,
+    bot: raw.bot
+  };
+}
+
+export function toCommunityDetails(raw: Decoded<typeof communityDetailsResponse>['result']): CommunityDetails {
+  return {
+    id: raw.communityId,
+    name: raw.communityName,
+    description: raw.communityDescription,
+    imageUrl: raw.communityProfileUrl,
+    memberCount: raw.member,
+    username: raw.communityUsername,
+    link: raw.link,
+    coverUrl: raw.communityCoverUrl,
+    type: raw.communityType,
+    category: raw.communityCategory,
+    guidelines: raw.communityGuidelines,
+    guidelinesEnabled: raw.communityGuidelinesEnabled,
+    verified: raw.verified,
+    isPublic: raw.public,
+    isFree: raw.free,
+    websiteUrl: raw.websiteUrl,
+    email: raw.email,
+    twitterHandle: raw.twitterHandle,
+    instagramHandle: raw.instagramHandle,
+    facebookHandle: raw.facebookHandle,
+    hashtags: raw.hashtags,
+    emoji: raw.emoji,
+    icon: raw.icon
+  };
+}
+
+export function toNotification(raw: Decoded<typeof notification>): Notification {
+  return {
+    id: raw.id,
+    notificationType: raw.notification_type,
+    title: raw.title,
+    message: raw.message,
+    communityId: raw.community_id,
+    image: raw.image,
+    actionBy: raw.action_by,
+    actionByUsername: raw.action_by_username,
+    actionByImage: raw.action_by_image,
+    customData: raw.custom_data && typeof raw.custom_data === 'object' ? raw.custom_data as Record<string, any> : {},
+    read: raw.read,
+    createdAt: raw.created_at
+  };
+}
+
+export function toMessage(raw: Decoded<typeof message>): Message {
+  const mediaUrl = raw.mediaLink || raw.media_link;
+
+  return {
+    id: raw.id,
+    message: raw.message,
+    userId: raw.userId,
+    sentDate: raw.sentDate,
+    mediaUrl,
+    isMedia: Boolean(mediaUrl)
+  };
+}
+
+export function toSentMessage(raw: Decoded<typeof sentMessage>): SentMessage {
+  const mediaUrl = raw.mediaLink || raw.media_link;
+
+  return {
+    id: raw.id,
+    message: raw.message,
+    userId: raw.userId,
+    sentDate: raw.sentDate,
+    mediaUrl,
+    isMedia: Boolean(mediaUrl),
+    communityId: raw.communityId,
+    ...(raw.channelId && { channelId: raw.channelId }),
+    ...(raw.groupId && { groupId: raw.groupId }),
+    status: raw.status
+  };
+}
+
+export function toStickerPack(raw: Decoded<typeof stickerPack>): StickerPack {
+  return {
+    id: raw.id || raw.stickerPackId,
+    name: raw.name || raw.packName,
+    description: raw.description,
+    thumbnailUrl: raw.thumbnailUrl || raw.thumbnail,
+    packType: raw.packType,
+    stickerCount: raw.stickerCount,
+    createdBy: raw.createdBy
+  };
+}
+
+export function toSticker(raw: Decoded<typeof sticker>): Sticker {
+  return {
+    id: raw.id,
+    stickerPackId: raw.stickerPackId,
+    name: raw.name,
+    url: raw.url || raw.stickerUrl
+  };
+}
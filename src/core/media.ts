@@ -0,0 +1,128 @@
+/**
+ * Media message helpers for SwitchX SDK
+ * Media type codes, MIME detection and image dimensions read from file headers
+ */
+
+import type { MediaInfo } from '../types';
+
+/**
+ * Message status codes for media messages
+ */
+export enum MessageMediaType {
+  Image = 1,
+  Video = 2,
+  Audio = 3,
+  Document = 7,
+  Sticker = 200
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  zip: 'application/zip',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Bytes read from the start of an image to find its dimensions
+export const IMAGE_HEADER_BYTES = 64 * 1024;
+
+/**
+ * Guess a MIME type from a file name, falling back to application/octet-stream
+ */
+export function mimeTypeFromFilename(filename: string): string {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * File extension for a MIME type, used to name uploads that have no name
+ */
+export function extensionFromMimeType(mimeType: string): string {
+  const match = Object.keys(MIME_TYPES).find((extension) => MIME_TYPES[extension] === mimeType);
+  return match ?? (mimeType.split('/')[1] || 'bin');
+}
+
+/**
+ * Read width and height from a PNG, GIF, JPEG or WebP header
+ * Returns undefined for other formats or when the header is cut off
+ * @param bytes - Start of the file (IMAGE_HEADER_BYTES is enough for almost every JPEG)
+ */
+export function imageDimensions(bytes: Uint8Array): { width: number; height: number } | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+  // PNG: IHDR chunk right after the signature
+  if (bytes.length >= 24 && ascii(1, 3) === 'PNG') {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // GIF: logical screen size, little endian
+  if (bytes.length >= 10 && ascii(0, 3) === 'GIF') {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  // WebP: size lives in the VP8, VP8L or VP8X chunk
+  if (bytes.length >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+    const chunk = ascii(12, 4);
+    if (chunk === 'VP8 ') {
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+      const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+      return { width, height };
+    }
+    return undefined;
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return undefined;
+      const marker = bytes[offset + 1];
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isFrame) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Build the mediaInfo payload sent with a media message
+ * @param file - Upload name, MIME type and size
+ * @param header - Start of the file, to read image dimensions (omit for non-images)
+ */
+export function describeMedia(
+  file: { fileName: string; mimeType: string; size: number },
+  header?: Uint8Array
+): MediaInfo {
+  const dimensions = header ? imageDimensions(header) : undefined;
+  return { ...file, ...dimensions };
+}
@@ -0,0 +1,18 @@
+/**
+ * Middleware chain for SwitchX SDK requests
+ */
+
+import type { SwitchXMiddleware, SwitchXNext, SwitchXRequest } from '../types';
+
+/**
+ * Compose middleware into a single handler
+ * The first middleware runs outermost; the terminal handler performs the actual fetch
+ * @param middleware - Middleware in registration order
+ * @param terminal - Final handler
+ */
+export function composeMiddleware(middleware: SwitchXMiddleware[], terminal: SwitchXNext): SwitchXNext {
+  return middleware.reduceRight<SwitchXNext>(
+    (next, current) => (request: SwitchXRequest) => current(request, next),
+    terminal
+  );
+}
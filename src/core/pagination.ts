@@ -0,0 +1,192 @@
+/**
+ * Pagination helpers for SwitchX SDK
+ * Turns offset- and page-based endpoints into async iterators and handles message cursors
+ */
+
+import { SwitchXNotFoundError, SwitchXValidationError } from './errors';
+import type { IterateOptions, Message, MessageTime } from '../types';
+
+/**
+ * Position of the page being requested, in every convention the API uses
+ */
+export interface PageRequest {
+  /** Page size */
+  limit: number;
+  /** Items already fetched */
+  offset: number;
+  /** Zero-based page index */
+  page: number;
+}
+
+/**
+ * Items of one page, plus the server's hasMore flag when it sends one
+ */
+export interface PageResult<T> {
+  items: T[];
+  hasMore?: boolean;
+}
+
+/**
+ * Iterate every item across pages
+ * Stops when the server reports hasMore === false, on an empty or short page, or after options.max items
+ * @param fetchPage - Loads one page
+ * @param options - Page size and item cap
+ * @param defaultPageSize - Page size when options.pageSize is not set
+ */
+export async function* paginate<T>(
+  fetchPage: (page: PageRequest) => Promise<PageResult<T>>,
+  options: IterateOptions = {},
+  defaultPageSize: number
+): AsyncGenerator<T, void, undefined> {
+  const limit = options.pageSize && options.pageSize > 0 ? options.pageSize : defaultPageSize;
+  const max = options.max ?? Infinity;
+  let yielded = 0;
+  let offset = 0;
+  let page = 0;
+
+  while (yielded < max) {
+    const { items, hasMore } = await fetchPage({ limit, offset, page });
+
+    for (const item of items) {
+      if (yielded >= max) return;
+      yield item;
+      yielded++;
+    }
+
+    if (items.length === 0 || hasMore === false || (hasMore === undefined && items.length < limit)) {
+      return;
+    }
+
+    offset += items.length;
+    page++;
+  }
+}
+
+/**
+ * Convert a message query time to epoch milliseconds
+ * @param time - Date, epoch milliseconds or date string
+ * @param name - Query field, for the error message
+ */
+export function toEpoch(time: MessageTime | undefined, name: string): number | undefined {
+  if (time === undefined) return undefined;
+
+  const epoch = time instanceof Date ? time.getTime() : parseTime(time);
+  if (Number.isNaN(epoch)) {
+    throw new SwitchXValidationError(`Invalid ${name} date: ${String(time)}`);
+  }
+  return epoch;
+}
+
+/**
+ * Parse a message sentDate (ISO string or epoch milliseconds, possibly as a string)
+ * Returns NaN when the value is not a date
+ */
+export function parseTime(value: string | number): number {
+  if (typeof value === 'number') return value;
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+/**
+ * Cursors and time bounds of a message window (times in epoch milliseconds)
+ */
+export interface MessageWindow {
+  before?: string;
+  after?: string;
+  since?: number;
+  until?: number;
+}
+
+/**
+ * Collect one page of a message window from offset-paged history (offset 0 = newest message)
+ * The history API has no cursor parameters, so pages are read from the newest one until the window is passed:
+ * - before: everything up to and including the cursor is skipped, as is anything sent after it
+ * - after: reading stops at the cursor, and anything sent before it is dropped
+ * - since/until: messages outside the range are dropped, and reading stops at the first message older than since
+ * Messages repeated by shifting offsets (new messages arriving mid-scan) are returned once
+ * @param fetchPage - Loads the page of history starting at offset
+ * @param window - Cursors and time bounds
+ * @param limit - Most messages to return: the newest ones, or with only `after` the ones closest to the cursor
+ * @param pageSize - Page size passed to fetchPage
+ * @returns Messages newest first, and whether more messages may match the window
+ * @throws SwitchXNotFoundError if a cursor message is not in the history (e.g. it was deleted)
+ */
+export async function collectMessageWindow(
+  fetchPage: (offset: number) => Promise<PageResult<Message>>,
+  window: MessageWindow,
+  limit: number,
+  pageSize: number
+): Promise<{ messages: Message[]; hasMore: boolean }> {
+  const matched: Message[] = [];
+  const seen = new Set<string>();
+  let beforeTime: number | undefined;
+  let afterTime: number | undefined;
+  let seeking = window.before !== undefined;
+  let foundAfter = false;
+  let reachedSince = false;
+  let more = false;
+  let offset = 0;
+
+  scan: while (true) {
+    const { items, hasMore } = await fetchPage(offset);
+    const lastPage = items.length === 0 || hasMore === false || (hasMore === undefined && items.length < pageSize);
+    let fresh = 0;
+
+    for (let index = 0; index < items.length; index++) {
+      const message = items[index];
+      if (seen.has(message.id)) continue;
+      seen.add(message.id);
+      fresh++;
+
+      if (seeking) {
+        if (message.id === window.before) {
+          seeking = false;
+          beforeTime = parseTime(message.sentDate);
+        }
+        continue;
+      }
+      if (message.id === window.after) {
+        foundAfter = true;
+        afterTime = parseTime(message.sentDate);
+        break scan;
+      }
+
+      // Absent dates only count by position
+      const sent = parseTime(message.sentDate);
+      if (!Number.isNaN(sent)) {
+        if (beforeTime !== undefined && sent > beforeTime) continue;
+        if (window.until !== undefined && sent > window.until) continue;
+        if (window.since !== undefined && sent < window.since) {
+          reachedSince = true;
+          break scan;
+        }
+      }
+
+      matched.push(message);
+      if (window.after === undefined && matched.length === limit) {
+        more = index < items.length - 1 || !lastPage;
+        break scan;
+      }
+    }
+
+    // A page with nothing new means the server ignores the offset
+    if (lastPage || fresh === 0) break;
+    offset += items.length;
+  }
+
+  if (seeking) {
+    throw new SwitchXNotFoundError(`Message ${window.before} (before) is not in the conversation`);
+  }
+  // A cursor older than since is never reached, and needn't be
+  if (window.after !== undefined && !foundAfter && !reachedSince) {
+    throw new SwitchXNotFoundError(`Message ${window.after} (after) is not in the conversation`);
+  }
+
+  const inWindow = afterTime === undefined || Number.isNaN(afterTime)
+    ? matched
+    : matched.filter((message) => !(parseTime(message.sentDate) < afterTime!));
+
+  if (window.after !== undefined && window.before === undefined) {
+    return { messages: inWindow.slice(-limit), hasMore: inWindow.length > limit };
+  }
+  return { messages: inWindow.slice(0, limit), hasMore: more || inWindow.length > limit };
+}
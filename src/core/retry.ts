@@ -0,0 +1,118 @@
+/**
+ * Retry helpers for SwitchX SDK
+ * Jittered exponential backoff that honors Retry-After
+ */
+
+import type { RetryOptions } from '../types';
+import { SwitchXError, SwitchXNetworkError } from './errors';
+import { createAbortError, throwIfAborted } from './http';
+
+export type RetryPolicy = Required<RetryOptions>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  retryOn: [408, 429, 500, 502, 503, 504]
+};
+
+/**
+ * Resolve the effective policy for a single call
+ * @param clientPolicy - Policy configured on the client (false = disabled)
+ * @param callRetry - Per-call retry option
+ * @param idempotent - Whether the request is safe to repeat (reads retry by default)
+ * @returns Policy to apply, or null when the call must not be retried
+ */
+export function resolveRetryPolicy(
+  clientPolicy: RetryOptions | false | undefined,
+  callRetry: boolean | RetryOptions | undefined,
+  idempotent: boolean
+): RetryPolicy | null {
+  if (callRetry === false) return null;
+  if (callRetry === undefined && (!idempotent || clientPolicy === false)) return null;
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(clientPolicy || {}),
+    ...(typeof callRetry === 'object' ? callRetry : {})
+  };
+}
+
+/**
+ * Delay before the next attempt
+ * Uses Retry-After when the server sent one, full-jitter exponential backoff otherwise
+ * @returns Delay in milliseconds, or null when Retry-After exceeds maxDelay
+ */
+export function computeRetryDelay(attempt: number, policy: RetryPolicy, retryAfter?: number): number | null {
+  if (retryAfter !== undefined) {
+    return retryAfter <= policy.maxDelay ? retryAfter : null;
+  }
+
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Whether an error is worth another attempt under the policy
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof SwitchXNetworkError) return true;
+  if (error instanceof SwitchXError && error.status !== undefined) {
+    return policy.retryOn.includes(error.status);
+  }
+  return false;
+}
+
+/**
+ * Run an operation, retrying transient failures according to the policy
+ * @param operation - Receives the 1-based attempt number
+ * @param policy - Policy from resolveRetryPolicy (null = single attempt)
+ * @param signal - Caller's signal; aborting stops retries and cancels the backoff wait
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy | null,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!policy || attempt >= policy.attempts || signal?.aborted || !isRetryableError(error, policy)) {
+        throw error;
+      }
+
+      const delay = computeRetryDelay(attempt, policy, (error as SwitchXError).retryAfter);
+      if (delay === null) {
+        throw error;
+      }
+
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
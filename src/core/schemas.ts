@@ -0,0 +1,314 @@
+/**
+ * Response schemas for SwitchX SDK
+ * Only the fields the SDK maps are described - everything else passes through unchecked
+ */
+
+import {
+  string,
+  number,
+  boolean,
+  unknown,
+  id,
+  timestamp,
+  optional,
+  array,
+  list,
+  object,
+  enveloped
+} from './decode';
+
+// Envelope keys used by paginated chat API lists
+const PAGE_KEYS = ['content', 'result', 'data', 'items'];
+
+// ===== Community =====
+
+const communityFields = {
+  communityId: id,
+  communityName: optional(string, ''),
+  communityDescription: optional(string, ''),
+  communityProfileUrl: optional(string, ''),
+  member: optional(number, 0),
+  communityUsername: optional(string, ''),
+  link: optional(string, '')
+};
+
+export const communityResponse = object({
+  result: object(communityFields)
+});
+
+const communityDetailsFields = {
+  ...communityFields,
+  communityCoverUrl: optional(string, ''),
+  communityType: optional(string, ''),
+  communityCategory: optional(string, ''),
+  communityGuidelines: optional(string, ''),
+  communityGuidelinesEnabled: optional(boolean, false),
+  verified: optional(boolean, false),
+  public: optional(boolean, false),
+  free: optional(boolean, false),
+  websiteUrl: optional(string, ''),
+  email: optional(string, ''),
+  twitterHandle: optional(string, ''),
+  instagramHandle: optional(string, ''),
+  facebookHandle: optional(string, ''),
+  hashtags: optional(array(string), []),
+  emoji: optional(array(string), []),
+  icon: optional(string, '')
+};
+
+export const communityDetailsResponse = object({
+  result: object(communityDetailsFields)
+});
+
+// Update endpoints may echo the saved record or only part of it: IDs fall back to what was sent
+export const updatedCommunityResponse = enveloped(object({
+  ...communityDetailsFields,
+  communityId: optional(id, '')
+}));
+
+export const membershipResponse = enveloped(object({
+  userId: optional(id, ''),
+  communityId: optional(id, ''),
+  admin: optional(boolean, false)
+}));
+
+export const membersResponse = object({
+  result: object({
+    userInfoList: array(object({
+      id: id,
+      name: optional(string, ''),
+      imageUrl: optional(string, ''),
+      bot: optional(boolean, false)
+    }))
+  })
+});
+
+export const channel = object({
+  channelId: id,
+  channelName: optional(string, ''),
+  icon: optional(string, '')
+});
+
+export const group = object({
+  groupId: id,
+  groupName: optional(string, ''),
+  icon: optional(string, '')
+});
+
+export const channelsResponse = object({
+  result: array(channel)
+});
+
+export const groupsResponse = object({
+  result: array(group)
+});
+
+export const createdChannelResponse = enveloped(channel);
+
+export const createdGroupResponse = enveloped(group);
+
+export const updatedChannelResponse = enveloped(object({
+  channelId: optional(id, ''),
+  channelName: optional(string, ''),
+  icon: optional(string, '')
+}));
+
+export const updatedGroupResponse = enveloped(object({
+  groupId: optional(id, ''),
+  groupName: optional(string, ''),
+  icon: optional(string, '')
+}));
+
+export const heading = object({
+  id: optional(id, ''),
+  headingId: optional(id, ''),
+  name: optional(string, ''),
+  headingName: optional(string, ''),
+  position: optional(number, 0),
+  channels: optional(array(channel), []),
+  groups: optional(array(group), [])
+});
+
+export const headingsResponse = list(heading, ['result']);
+
+export const role = object({
+  id: optional(id, ''),
+  roleId: optional(id, ''),
+  roleName: optional(string, ''),
+  roleColour: optional(string, ''),
+  communityId: optional(id, '')
+});
+
+export const roleResponse = enveloped(role);
+
+export const communityUserResponse = object({
+  result: optional(object({
+    admin: optional(boolean, false)
+  }), { admin: false })
+});
+
+// ===== Users =====
+
+export const userResponse = object({
+  id: id,
+  name: optional(string, ''),
+  imageUrl: optional(string, ''),
+  username: optional(string, ''),
+  bio: optional(string, ''),
+  bot: optional(boolean, false)
+});
+
+export const currentUserResponse = enveloped(object({
+  id: id,
+  user_name: optional(string, ''),
+  name: optional(string, ''),
+  email: optional(string, ''),
+  imageurl: optional(string, ''),
+  profile_colour: optional(string, ''),
+  bio: optional(string, ''),
+  bot: optional(boolean, false)
+}));
+
+export const friend = object({
+  id: id,
+  user_name: optional(string, ''),
+  name: optional(string, ''),
+  email: optional(string, ''),
+  profile_colour: optional(string, ''),
+  imageurl: optional(string, ''),
+  status: optional(string, '')
+});
+
+export const friendsResponse = array(friend);
+
+export const friendsCountResponse = object({
+  count: optional(number, 0)
+});
+
+export const notification = object({
+  id: id,
+  notification_type: optional(string, ''),
+  title: optional(string, ''),
+  message: optional(string, ''),
+  community_id: optional(id, ''),
+  image: optional(string, ''),
+  action_by: optional(id, ''),
+  action_by_username: optional(string, ''),
+  action_by_image: optional(string, ''),
+  custom_data: unknown,
+  read: optional(boolean, false),
+  created_at: optional(timestamp, '')
+});
+
+export const notificationsResponse = list(notification, ['notifications', ...PAGE_KEYS]);
+
+// ===== Messages =====
+
+const messageFields = {
+  id: id,
+  message: optional(string, ''),
+  userId: optional(id, ''),
+  sentDate: optional(timestamp, ''),
+  mediaLink: optional(string, ''),
+  media_link: optional(string, '')
+};
+
+export const message = object(messageFields);
+
+export const sentMessage = object({
+  ...messageFields,
+  communityId: optional(id, ''),
+  channelId: optional(id, ''),
+  groupId: optional(id, ''),
+  status: optional(number, 0)
+});
+
+export const chatHistoryResponse = object({
+  messages: optional(array(message), []),
+  totalCount: optional(number, 0),
+  hasMore: optional(boolean, false)
+});
+
+export const messageSearchResponse = array(message);
+
+export const sentMessageResponse = enveloped(sentMessage);
+
+export const forwardedMessagesResponse = list(sentMessage, ['result']);
+
+// ===== Stickers =====
+
+export const stickerPack = object({
+  id: optional(id, ''),
+  stickerPackId: optional(id, ''),
+  name: optional(string, ''),
+  packName: optional(string, ''),
+  description: optional(string, ''),
+  thumbnailUrl: optional(string, ''),
+  thumbnail: optional(string, ''),
+  packType: optional(string, ''),
+  stickerCount: optional(number, 0),
+  createdBy: optional(id, '')
+});
+
+export const stickerPacksResponse = list(stickerPack, PAGE_KEYS);
+
+export const stickerPackResponse = enveloped(stickerPack);
+
+export const sticker = object({
+  id: id,
+  stickerPackId: optional(id, ''),
+  name: optional(string, ''),
+  url: optional(string, ''),
+  stickerUrl: optional(string, '')
+});
+
+export const stickersResponse = list(sticker, PAGE_KEYS);
+
+// ===== Webhooks =====
+
+export const webhookEnvelope = object({
+  id: optional(id, ''),
+  type: string,
+  data: optional(unknown, {})
+});
+
+export const webhookMessageCreated = sentMessage;
+
+export const webhookMemberJoined = object({
+  userId: id,
+  communityId: id,
+  groupId: optional(id, ''),
+  referredByUserId: optional(id, '')
+});
+
+export const webhookReactionAdded = object({
+  messageId: id,
+  userId: id,
+  emoji: string,
+  communityId: optional(id, ''),
+  channelId: optional(id, ''),
+  groupId: optional(id, '')
+});
+
+export const webhookAppInstalled = object({
+  communityId: id,
+  installedBy: optional(id, '')
+});
+
+// ===== Uploads & platform =====
+
+export const uploadResponse = object({
+  files: optional(array(object({
+    url: string
+  })), [])
+});
+
+export const appInfoResponse = object({
+  name: optional(string, ''),
+  description: optional(string, ''),
+  emoji: unknown,
+  created_by: optional(number, 0),
+  deployment_meta: optional(object({
+    production_url: optional(string, null)
+  }), { production_url: null })
+});
@@ -0,0 +1,79 @@
+/**
+ * Server-sent events parser for SwitchX SDK
+ * Reads a fetch Response body (browser and Node.js) and yields one message per event
+ */
+
+export interface ServerSentEvent {
+  /** Event name (defaults to "message") */
+  event: string;
+  /** Data lines joined with newlines */
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parse a text/event-stream body
+ * The reader is released (and the body cancelled) when the consumer stops early
+ * @param body - Response body
+ */
+export async function* parseEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+  let id: string | undefined;
+  let finished = false;
+
+  const dispatch = (): ServerSentEvent | null => {
+    const message = data.length > 0 ? { event, data: data.join('\n'), ...(id !== undefined && { id }) } : null;
+    event = 'message';
+    data = [];
+    return message;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // A trailing \r may be the first half of a \r\n split across chunks
+      const carry = !done && buffer.endsWith('\r') ? '\r' : '';
+      const lines = buffer.slice(0, buffer.length - carry.length).split(/\r\n|\r|\n/);
+      // The last piece may be an incomplete line
+      buffer = done ? '' : lines.pop()! + carry;
+
+      for (const line of lines) {
+        if (line === '') {
+          const message = dispatch();
+          if (message) yield message;
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const rawValue = colon === -1 ? '' : line.slice(colon + 1);
+        const fieldValue = rawValue.startsWith(' ') ? rawValue.slice(1) : rawValue;
+
+        if (field === 'data') data.push(fieldValue);
+        else if (field === 'event') event = fieldValue;
+        else if (field === 'id') id = fieldValue;
+      }
+
+      if (done) {
+        const message = dispatch();
+        if (message) yield message;
+        finished = true;
+        return;
+      }
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
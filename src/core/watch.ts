@@ -0,0 +1,264 @@
+/**
+ * Live message events for SwitchX SDK
+ * Polls channels and groups, diffs against the last seen messages and emits created/edited/deleted events
+ */
+
+import { sleep } from './retry';
+import { parseTime } from './pagination';
+import type { SwitchXCore } from './index';
+import type {
+  Message,
+  WatchConversation,
+  WatchEvent,
+  WatchEventMap,
+  WatchOptions,
+  WatchTransport
+} from '../types';
+
+export const DEFAULT_WATCH_INTERVAL = 3000;
+export const DEFAULT_WATCH_MAX_INTERVAL = 30000;
+export const DEFAULT_WATCH_WINDOW = 50;
+
+// Message IDs remembered per conversation (as a multiple of the window size) to suppress repeated created events
+const SEEN_WINDOWS = 20;
+
+type Listener<K extends keyof WatchEventMap> = (event: WatchEventMap[K]) => void;
+
+/**
+ * Event emitter fed by a watch transport
+ *
+ * @example
+ * const watcher = client.watch({ channelIds: [channelId] });
+ * watcher.on('message.created', ({ message }) => render(message));
+ * watcher.on('error', (error) => console.warn(error));
+ * // later
+ * watcher.stop();
+ */
+export class SwitchXWatcher {
+  private readonly listeners = new Map<keyof WatchEventMap, Set<Listener<any>>>();
+  private controller: AbortController | null = null;
+
+  /**
+   * @param transport - Event source
+   * @param conversations - Channels and groups to follow
+   */
+  constructor(
+    private readonly transport: WatchTransport,
+    readonly conversations: WatchConversation[]
+  ) {}
+
+  /**
+   * Whether the transport is running
+   */
+  get running(): boolean {
+    return this.controller !== null;
+  }
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof WatchEventMap>(type: K, listener: Listener<K>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  off<K extends keyof WatchEventMap>(type: K, listener: Listener<K>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Start the transport (no-op when already running)
+   */
+  start(): this {
+    if (this.controller) return this;
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    const reportError = (error: unknown) => {
+      if (!controller.signal.aborted) this.dispatchError(error);
+    };
+
+    Promise.resolve()
+      .then(() => this.transport({
+        conversations: this.conversations,
+        emit: (event) => {
+          if (!controller.signal.aborted) this.dispatch(event.type, event);
+        },
+        error: reportError,
+        signal: controller.signal
+      }))
+      .catch(reportError);
+
+    return this;
+  }
+
+  /**
+   * Stop the transport; listeners stay registered so start() can resume
+   */
+  stop(): void {
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private dispatch<K extends keyof WatchEventMap>(type: K, event: WatchEventMap[K]): void {
+    for (const listener of [...(this.listeners.get(type) ?? [])]) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.dispatchError(error);
+      }
+    }
+  }
+
+  private dispatchError(error: unknown): void {
+    const listeners = [...(this.listeners.get('error') ?? [])];
+    const normalized = error instanceof Error ? error : new Error(String(error));
+
+    if (listeners.length === 0) {
+      console.warn(`[SwitchX] watch error: ${normalized.message}`);
+      return;
+    }
+
+    for (const listener of listeners) {
+      try {
+        listener(normalized);
+      } catch (listenerError) {
+        console.warn('[SwitchX] watch error listener threw:', listenerError);
+      }
+    }
+  }
+}
+
+function oldestTime(messages: Iterable<Message>): number {
+  let oldest = Infinity;
+  for (const message of messages) {
+    const sent = parseTime(message.sentDate);
+    if (sent < oldest) oldest = sent;
+  }
+  return oldest;
+}
+
+/**
+ * Compare two snapshots of a conversation's latest messages
+ * Messages entering or leaving the window only because it moved are not reported
+ * @param complete - The current snapshot holds the whole conversation (fewer messages than the window size)
+ */
+export function diffMessages(
+  conversation: WatchConversation,
+  previous: Map<string, Message>,
+  current: Map<string, Message>,
+  complete: boolean
+): WatchEvent[] {
+  const previousOldest = previous.size > 0 ? oldestTime(previous.values()) : -Infinity;
+  const currentOldest = oldestTime(current.values());
+  const events: WatchEvent[] = [];
+
+  // Absent dates are treated as inside the window
+  const isAtOrAfter = (message: Message, time: number) => !(parseTime(message.sentDate) < time);
+
+  for (const message of current.values()) {
+    const before = previous.get(message.id);
+    if (!before) {
+      if (isAtOrAfter(message, previousOldest)) {
+        events.push({ type: 'message.created', conversation, message });
+      }
+    } else if (before.message !== message.message || before.mediaUrl !== message.mediaUrl) {
+      events.push({ type: 'message.edited', conversation, message, previous: before });
+    }
+  }
+
+  for (const message of previous.values()) {
+    if (!current.has(message.id) && (complete || isAtOrAfter(message, currentOldest))) {
+      events.push({ type: 'message.deleted', conversation, message });
+    }
+  }
+
+  // Oldest first, so created events arrive in the order messages were sent
+  return events.sort((a, b) => (parseTime(a.message.sentDate) || 0) - (parseTime(b.message.sentDate) || 0));
+}
+
+/**
+ * Default transport: poll the latest messages of every conversation and diff them
+ * The first poll only records a baseline; the interval grows while nothing changes and resets on activity
+ * Each message is reported as created at most once, even if a poll returns an older window again
+ * @param client - Client used to poll
+ * @param options - Interval, maximum interval and window size
+ */
+export function pollingTransport(
+  client: SwitchXCore,
+  options: Pick<WatchOptions, 'interval' | 'maxInterval' | 'windowSize'> = {}
+): WatchTransport {
+  const interval = options.interval ?? DEFAULT_WATCH_INTERVAL;
+  const maxInterval = Math.max(interval, options.maxInterval ?? DEFAULT_WATCH_MAX_INTERVAL);
+  const windowSize = options.windowSize ?? DEFAULT_WATCH_WINDOW;
+
+  return async ({ conversations, emit, error, signal }) => {
+    const snapshots = new Map<string, Map<string, Message>>();
+    const seen = new Map<string, Set<string>>();
+    let delay = interval;
+
+    while (!signal.aborted) {
+      let active = false;
+
+      await Promise.all(conversations.map(async (conversation) => {
+        const target = conversation.type === 'channel'
+          ? { channelId: conversation.id }
+          : { groupId: conversation.id };
+
+        try {
+          const page = await client.getMessages(
+            { ...target, communityId: conversation.communityId, limit: windowSize },
+            { signal, priority: 'bulk' }
+          );
+
+          const key = `${conversation.type}:${conversation.id}`;
+          const previous = snapshots.get(key);
+          const current = new Map(page.messages.map((message) => [message.id, message]));
+          snapshots.set(key, current);
+
+          const known = seen.get(key) ?? new Set<string>();
+          seen.set(key, known);
+
+          if (previous) {
+            const complete = !page.hasMore && page.messages.length < windowSize;
+            for (const event of diffMessages(conversation, previous, current, complete)) {
+              if (event.type === 'message.created' && known.has(event.message.id)) continue;
+              active = true;
+              emit(event);
+            }
+          }
+
+          // Re-insert so trimming drops the IDs seen longest ago
+          for (const id of current.keys()) {
+            known.delete(id);
+            known.add(id);
+          }
+          for (const id of known) {
+            if (known.size <= windowSize * SEEN_WINDOWS) break;
+            known.delete(id);
+          }
+        } catch (pollError) {
+          if (!signal.aborted) error(pollError);
+        }
+      }));
+
+      delay = active ? interval : Math.min(delay * 1.5, maxInterval);
+
+      try {
+        await sleep(delay, signal);
+      } catch {
+        return;
+      }
+    }
+  };
+}
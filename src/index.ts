@@ -10,7 +10,43 @@
  */
 
 // Export core SDK (works everywhere with user token)
-export { SwitchXCore } from './core';
+export {
+  SwitchXCore,
+  SwitchXCommunity,
+  MessageMediaType,
+  SwitchXWatcher,
+  pollingTransport,
+  AIChatStream,
+  AI_MODELS,
+  SwitchXAgent,
+  sdkTools,
+  AIConversation,
+  SWITCHX_ENVIRONMENTS,
+  resolveEndpoints,
+  MemoryCacheStorage,
+  LocalStorageCacheStorage,
+  DEFAULT_CACHE_TTL,
+  SwitchXError,
+  SwitchXDecodeError,
+  SwitchXWebhookError,
+  SwitchXAuthError,
+  SwitchXNotFoundError,
+  SwitchXRateLimitError,
+  SwitchXValidationError,
+  SwitchXNetworkError,
+  SwitchXTimeoutError
+} from './core';
+export type { SwitchXErrorDetails, SwitchXDecodeIssue } from './core';
+export type {
+  AgentTool,
+  AgentToolContext,
+  AgentToolResult,
+  AgentStep,
+  AgentStopReason,
+  AgentRunResult,
+  AgentOptions
+} from './core';
+export type { ConversationOptions, ConversationSnapshot, ConversationStrategy } from './core';
 
 // Export all types
 export * from './types';
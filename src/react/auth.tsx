@@ -8,7 +8,8 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import { SwitchXCore } from '../core';
-import type { UserInfo } from '../types';
+import { composeMiddleware } from '../core/middleware';
+import type { UserInfo, SwitchXClientOptions } from '../types';
 
 /**
  * SwitchX WebApp Bridge Interface
@@ -101,13 +102,13 @@ export function useAuth(): SwitchXAuthContextValue {
  * @param targetUserId - The ID of the user to fetch info for
  */
 export function useUserInfo(targetUserId?: string) {
-  const { token } = useAuth();
+  const { client } = useAuth();
   const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const fetchUser = useCallback(async () => {
-    if (!targetUserId || !token) {
+    if (!targetUserId || !client) {
       setUserInfo(null);
       return null;
     }
@@ -115,7 +116,6 @@ export function useUserInfo(targetUserId?: string) {
     try {
       setLoading(true);
       setError(null);
-      const client = new SwitchXCore(token);
       const info = await client.getUser(targetUserId);
       setUserInfo(info);
       return info;
@@ -127,7 +127,7 @@ export function useUserInfo(targetUserId?: string) {
     } finally {
       setLoading(false);
     }
-  }, [targetUserId, token]);
+  }, [targetUserId, client]);
 
   useEffect(() => {
     fetchUser();
@@ -161,6 +161,13 @@ interface SwitchXAuthProviderProps {
    * Example: 'https://switchx.gg'
    */
   parentOrigin?: string;
+  /**
+   * Options for the pre-configured API client (environment profile, endpoint overrides)
+   * Unless onUnauthorized is set, a 401 re-reads the token from the parent app and replays the request
+   * fetch, middleware and onUnauthorized are read on every call, so inline functions are fine
+   * Example: { environment: 'staging' }
+   */
+  clientOptions?: SwitchXClientOptions;
 }
 
 /**
@@ -171,7 +178,8 @@ export function SwitchXAuthProvider({
   children,
   onAuthChange,
   notifyParent = true,
-  parentOrigin = '*'
+  parentOrigin = '*',
+  clientOptions
 }: SwitchXAuthProviderProps) {
   const [token, setToken] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
@@ -284,21 +292,40 @@ export function SwitchXAuthProvider({
     return () => window.removeEventListener('message', handleParentTheme);
   }, []);
 
+  // Token refresh used by the client on 401 (assigned once refreshAuthFromParent exists)
+  const refreshTokenRef = React.useRef<() => Promise<string | null>>();
+
+  // Latest options, read when the client calls its fetch, middleware or onUnauthorized
+  // so changing a function-valued option takes effect without a stale client
+  const clientOptionsRef = React.useRef(clientOptions);
+  clientOptionsRef.current = clientOptions;
+
   // Create API client instance (memoized to avoid recreating on every render)
+  // One client per token: a new token starts with a fresh cache scope and every hook refetches
+  // Options are serialized so inline object literals don't recreate the client
+  const clientOptionsKey = JSON.stringify(clientOptions || {});
   const client = useMemo(() => {
-    return token ? new SwitchXCore(token) : null;
-  }, [token]);
+    if (!token) return null;
+
+    return new SwitchXCore(token, {
+      ...clientOptions,
+      fetch: (input, init) => (clientOptionsRef.current?.fetch ?? fetch)(input, init),
+      middleware: [(request, next) => composeMiddleware(clientOptionsRef.current?.middleware ?? [], next)(request)],
+      onUnauthorized: (error) => clientOptionsRef.current?.onUnauthorized
+        ? clientOptionsRef.current.onUnauthorized(error)
+        : refreshTokenRef.current?.() ?? null
+    });
+  }, [token, clientOptionsKey]);
 
   /**
    * Fetch user information using the stored token and userId
    */
   const fetchUserInfo = useCallback(async (signal?: AbortSignal): Promise<boolean> => {
-    if (!token || !userId) return false;
+    if (!client || !userId) return false;
 
     try {
       setUserLoading(true);
-      const client = new SwitchXCore(token);
-      const userInfo = await client.getUser(userId);
+      const userInfo = await client.getUser(userId, { signal });
 
       // Check if aborted before updating state
       if (signal?.aborted) return false;
@@ -323,7 +350,7 @@ export function SwitchXAuthProvider({
         setUserLoading(false);
       }
     }
-  }, [token, userId]);
+  }, [client, userId]);
 
   /**
    * Notify parent window when authentication state changes
@@ -562,6 +589,11 @@ export function SwitchXAuthProvider({
     }
   }, []);
 
+  refreshTokenRef.current = async () => {
+    const refreshed = await refreshAuthFromParent();
+    return refreshed ? window.SwitchX?.WebApp?.getAuthToken()?.token ?? null : null;
+  };
+
   /**
    * Clear local auth (logout is handled by parent app)
    */
@@ -5,7 +5,7 @@
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from './auth';
 import type {
   CommunityInfo,
@@ -42,32 +42,43 @@ export function useCommunity(communityId?: string): UseQueryResult<CommunityInfo
   const [data, setData] = useState<CommunityInfo | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchData = useCallback(async (fresh = false) => {
+    abortRef.current?.abort();
 
-  const fetchData = useCallback(async () => {
     if (!client || !effectiveCommunityId) {
       setData(null);
+      setLoading(false);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const result = await client.getCommunity(effectiveCommunityId);
+      const result = await client.getCommunity(effectiveCommunityId, { signal: controller.signal, cache: !fresh });
       setData(result);
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Failed to fetch community:', err);
       setError(err.message || 'Failed to fetch community');
       setData(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   }, [client, effectiveCommunityId]);
 
   useEffect(() => {
     fetchData();
+    return () => abortRef.current?.abort();
   }, [fetchData]);
 
-  return { data, loading, error, refetch: fetchData, communityId: effectiveCommunityId };
+  return { data, loading, error, refetch: () => fetchData(true), communityId: effectiveCommunityId };
 }
 
 /**
@@ -81,32 +92,43 @@ export function useMembers(communityId?: string): UseQueryResult<CommunityMember
   const [data, setData] = useState<CommunityMember[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchData = useCallback(async (fresh = false) => {
+    abortRef.current?.abort();
 
-  const fetchData = useCallback(async () => {
     if (!client || !effectiveCommunityId) {
       setData(null);
+      setLoading(false);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const result = await client.getMembers(effectiveCommunityId);
+      const result = await client.getMembers(effectiveCommunityId, { signal: controller.signal, cache: !fresh });
       setData(result);
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Failed to fetch members:', err);
       setError(err.message || 'Failed to fetch members');
       setData(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   }, [client, effectiveCommunityId]);
 
   useEffect(() => {
     fetchData();
+    return () => abortRef.current?.abort();
   }, [fetchData]);
 
-  return { data, loading, error, refetch: fetchData };
+  return { data, loading, error, refetch: () => fetchData(true) };
 }
 
 /**
@@ -117,32 +139,43 @@ export function useUser(userId?: string): UseQueryResult<UserInfo> {
   const [data, setData] = useState<UserInfo | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchData = useCallback(async (fresh = false) => {
+    abortRef.current?.abort();
 
-  const fetchData = useCallback(async () => {
     if (!client || !userId) {
       setData(null);
+      setLoading(false);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const result = await client.getUser(userId);
+      const result = await client.getUser(userId, { signal: controller.signal, cache: !fresh });
       setData(result);
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Failed to fetch user:', err);
       setError(err.message || 'Failed to fetch user');
       setData(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   }, [client, userId]);
 
   useEffect(() => {
     fetchData();
+    return () => abortRef.current?.abort();
   }, [fetchData]);
 
-  return { data, loading, error, refetch: fetchData };
+  return { data, loading, error, refetch: () => fetchData(true) };
 }
 
 /**
@@ -156,32 +189,43 @@ export function useChannels(communityId?: string): UseQueryResult<Channel[]> {
   const [data, setData] = useState<Channel[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchData = useCallback(async (fresh = false) => {
+    abortRef.current?.abort();
 
-  const fetchData = useCallback(async () => {
     if (!client || !effectiveCommunityId) {
       setData(null);
+      setLoading(false);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const result = await client.getChannels(effectiveCommunityId);
+      const result = await client.getChannels(effectiveCommunityId, { signal: controller.signal, cache: !fresh });
       setData(result);
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Failed to fetch channels:', err);
       setError(err.message || 'Failed to fetch channels');
       setData(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   }, [client, effectiveCommunityId]);
 
   useEffect(() => {
     fetchData();
+    return () => abortRef.current?.abort();
   }, [fetchData]);
 
-  return { data, loading, error, refetch: fetchData };
+  return { data, loading, error, refetch: () => fetchData(true) };
 }
 
 /**
@@ -195,32 +239,43 @@ export function useGroups(communityId?: string): UseQueryResult<Group[]> {
   const [data, setData] = useState<Group[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchData = useCallback(async (fresh = false) => {
+    abortRef.current?.abort();
 
-  const fetchData = useCallback(async () => {
     if (!client || !effectiveCommunityId) {
       setData(null);
+      setLoading(false);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const result = await client.getGroups(effectiveCommunityId);
+      const result = await client.getGroups(effectiveCommunityId, { signal: controller.signal, cache: !fresh });
       setData(result);
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Failed to fetch groups:', err);
       setError(err.message || 'Failed to fetch groups');
       setData(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   }, [client, effectiveCommunityId]);
 
   useEffect(() => {
     fetchData();
+    return () => abortRef.current?.abort();
   }, [fetchData]);
 
-  return { data, loading, error, refetch: fetchData };
+  return { data, loading, error, refetch: () => fetchData(true) };
 }
 
 /**
@@ -236,29 +291,40 @@ export function useChannelMessages(
   const [data, setData] = useState<ChatHistory | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const fetchData = useCallback(async () => {
+    abortRef.current?.abort();
+
     if (!client || !channelId || !communityId) {
       setData(null);
+      setLoading(false);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const result = await client.getChannelMessages(channelId, communityId, options);
+      const result = await client.getChannelMessages(channelId, communityId, options, { signal: controller.signal });
       setData(result);
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Failed to fetch channel messages:', err);
       setError(err.message || 'Failed to fetch channel messages');
       setData(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   }, [client, channelId, communityId, JSON.stringify(options)]);
 
   useEffect(() => {
     fetchData();
+    return () => abortRef.current?.abort();
   }, [fetchData]);
 
   return { data, loading, error, refetch: fetchData };
@@ -277,29 +343,40 @@ export function useGroupMessages(
   const [data, setData] = useState<ChatHistory | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const fetchData = useCallback(async () => {
+    abortRef.current?.abort();
+
     if (!client || !groupId || !communityId) {
       setData(null);
+      setLoading(false);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const result = await client.getGroupMessages(groupId, communityId, options);
+      const result = await client.getGroupMessages(groupId, communityId, options, { signal: controller.signal });
       setData(result);
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Failed to fetch group messages:', err);
       setError(err.message || 'Failed to fetch group messages');
       setData(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   }, [client, groupId, communityId, JSON.stringify(options)]);
 
   useEffect(() => {
     fetchData();
+    return () => abortRef.current?.abort();
   }, [fetchData]);
 
   return { data, loading, error, refetch: fetchData };
@@ -318,29 +395,40 @@ export function useSearchMessages(
   const [data, setData] = useState<Message[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const fetchData = useCallback(async () => {
+    abortRef.current?.abort();
+
     if (!client || !searchString || !communityId) {
       setData(null);
+      setLoading(false);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const result = await client.searchMessages(searchString, communityId, options);
+      const result = await client.searchMessages(searchString, communityId, options, { signal: controller.signal });
       setData(result);
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Failed to search messages:', err);
       setError(err.message || 'Failed to search messages');
       setData(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   }, [client, searchString, communityId, JSON.stringify(options)]);
 
   useEffect(() => {
     fetchData();
+    return () => abortRef.current?.abort();
   }, [fetchData]);
 
   return { data, loading, error, refetch: fetchData };
@@ -358,29 +446,40 @@ export function useIsAdmin(
   const [data, setData] = useState<boolean | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const fetchData = useCallback(async () => {
+    abortRef.current?.abort();
+
     if (!client || !userId || !communityId) {
       setData(null);
+      setLoading(false);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const result = await client.isAdmin(userId, communityId);
+      const result = await client.isAdmin(userId, communityId, { signal: controller.signal });
       setData(result);
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Failed to check admin status:', err);
       setError(err.message || 'Failed to check admin status');
       setData(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   }, [client, userId, communityId]);
 
   useEffect(() => {
     fetchData();
+    return () => abortRef.current?.abort();
   }, [fetchData]);
 
   return { data, loading, error, refetch: fetchData };
@@ -30,4 +30,19 @@ export {
 
 // Re-export types
 export * from '../types';
-export { SwitchXCore } from '../core';
+export {
+  SwitchXCore,
+  MessageMediaType,
+  SwitchXWatcher,
+  AIChatStream,
+  AI_MODELS,
+  SwitchXError,
+  SwitchXDecodeError,
+  SwitchXWebhookError,
+  SwitchXAuthError,
+  SwitchXNotFoundError,
+  SwitchXRateLimitError,
+  SwitchXValidationError,
+  SwitchXNetworkError,
+  SwitchXTimeoutError
+} from '../core';
@@ -0,0 +1,398 @@
+/**
+ * Slash-command router for SwitchX bots
+ * Registers typed commands, syncs them to the community settings, parses "/command args" messages and replies
+ */
+
+import { SwitchXValidationError } from '../core/errors';
+import type { SwitchXServer } from './index';
+import type { SwitchXWatcher } from '../core/watch';
+import type { RequestOptions, SentMessage } from '../types';
+
+/**
+ * Argument accepted by a command
+ */
+export interface CommandArgument {
+  name: string;
+  /**
+   * Value type, checked and converted before the handler runs
+   * Default: 'string'
+   */
+  type?: 'string' | 'number' | 'boolean';
+  description?: string;
+  /**
+   * Default: true
+   */
+  required?: boolean;
+  /**
+   * Take the rest of the message as this argument (last argument only)
+   */
+  rest?: boolean;
+}
+
+type ArgumentValue<A extends CommandArgument> =
+  A['type'] extends 'number' ? number : A['type'] extends 'boolean' ? boolean : string;
+
+/**
+ * Parsed arguments, keyed by name (optional arguments may be undefined)
+ */
+export type CommandArgs<A extends readonly CommandArgument[]> = {
+  [K in A[number] as K['name']]: K['required'] extends false ? ArgumentValue<K> | undefined : ArgumentValue<K>;
+};
+
+/**
+ * Chat message the router is asked to handle
+ */
+export interface IncomingCommand {
+  /** Message text, e.g. "/remind 10 stand-up" */
+  text: string;
+  userId: string;
+  /** Channel the reply is sent to */
+  channelId: string;
+  /** Default: the router's community */
+  communityId?: string;
+  messageId?: string;
+}
+
+/**
+ * What a command handler receives
+ */
+export interface CommandContext<Args> {
+  args: Args;
+  command: IncomingCommand;
+  communityId: string;
+  client: SwitchXServer;
+  /** Send a message to the channel the command came from */
+  reply(text: string): Promise<SentMessage>;
+}
+
+/**
+ * Command registration
+ * Returning a string from the handler sends it as the reply
+ */
+export interface CommandDefinition<A extends readonly CommandArgument[] = readonly CommandArgument[]> {
+  name: string;
+  description: string;
+  args?: A;
+  /** Only community admins may run it (checked with isAdmin) */
+  adminOnly?: boolean;
+  handler(context: CommandContext<CommandArgs<A>>): string | void | Promise<string | void>;
+  /**
+   * Called when the handler throws; return a string to reply with it
+   * Default: the router's onError
+   */
+  onError?(error: unknown, context: CommandContext<CommandArgs<A>>): string | void | Promise<string | void>;
+}
+
+/**
+ * Result of handling a message
+ * - ignored: not a command
+ * - handled: the handler ran
+ * - unknown: no command with that name
+ * - invalid: arguments did not match the command's schema
+ * - forbidden: admin-only command run by a non-admin
+ * - failed: the handler threw
+ */
+export type CommandOutcome = 'ignored' | 'handled' | 'unknown' | 'invalid' | 'forbidden' | 'failed';
+
+export interface CommandRouterOptions {
+  /**
+   * Community the commands belong to
+   * Default: the client's default community
+   */
+  communityId?: string;
+  /**
+   * Command prefix
+   * Default: '/'
+   */
+  prefix?: string;
+  /**
+   * Register a built-in help command
+   * Default: true
+   */
+  help?: boolean;
+  /**
+   * Answer messages that name no registered command
+   * Off by default, so bots sharing a channel don't reply to each other's commands
+   * Default: false
+   */
+  replyToUnknown?: boolean;
+  /**
+   * Called when a handler throws and the command has no onError; return a string to reply with it
+   * Default: log the error and reply with a generic message
+   */
+  onError?(error: unknown, context: CommandContext<Record<string, unknown>>): string | void | Promise<string | void>;
+}
+
+// Split on whitespace, keeping "quoted strings" together
+const TOKEN = /"((?:\\.|[^"\\])*)"|(\S+)/g;
+
+function tokenize(input: string): Array<{ value: string; end: number }> {
+  const tokens: Array<{ value: string; end: number }> = [];
+  for (const match of input.matchAll(TOKEN)) {
+    const value = match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2];
+    tokens.push({ value, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true, yes: true, on: true, '1': true,
+  false: false, no: false, off: false, '0': false
+};
+
+function convert(argument: CommandArgument, raw: string): string | number | boolean {
+  switch (argument.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        throw new SwitchXValidationError(`${argument.name} should be a number, got "${raw}"`);
+      }
+      return value;
+    }
+    case 'boolean': {
+      const value = BOOLEAN_VALUES[raw.toLowerCase()];
+      if (value === undefined) {
+        throw new SwitchXValidationError(`${argument.name} should be yes or no, got "${raw}"`);
+      }
+      return value;
+    }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Routes slash commands to handlers
+ *
+ * @example
+ * const router = client.commands({ communityId });
+ *
+ * router.command({
+ *   name: 'roll',
+ *   description: 'Roll a die',
+ *   args: [{ name: 'sides', type: 'number', required: false }] as const,
+ *   handler: ({ args }) => `You rolled ${1 + Math.floor(Math.random() * (args.sides ?? 6))}`
+ * });
+ *
+ * await router.sync();
+ * router.attach(client.watch({ channelIds: [channelId] }));
+ */
+export class SwitchXCommandRouter {
+  private readonly commands = new Map<string, CommandDefinition<any>>();
+  private readonly prefix: string;
+
+  /**
+   * @param client - Server client used to check admins, sync commands and reply
+   * @param options - Community, prefix, help command and fallback error handling
+   */
+  constructor(readonly client: SwitchXServer, private readonly options: CommandRouterOptions = {}) {
+    this.prefix = options.prefix ?? '/';
+
+    if (options.help !== false) {
+      this.command({
+        name: 'help',
+        description: 'List commands, or show how to use one',
+        args: [{ name: 'command', required: false }],
+        handler: ({ args }) => this.helpText(args.command)
+      });
+    }
+  }
+
+  /**
+   * Register a command (replaces one with the same name)
+   * Declare args `as const` so the handler sees typed arguments
+   */
+  command<const A extends readonly CommandArgument[] = []>(definition: CommandDefinition<A>): this {
+    const name = definition.name.toLowerCase();
+    if (!/^[a-z0-9_-]+$/.test(name)) {
+      throw new SwitchXValidationError(`Invalid command name "${definition.name}": use letters, digits, - and _`);
+    }
+
+    const args = definition.args ?? [];
+    const restIndex = args.findIndex((argument) => argument.rest);
+    if (restIndex !== -1 && restIndex !== args.length - 1) {
+      throw new SwitchXValidationError(`/${name}: only the last argument can take the rest of the message`);
+    }
+
+    this.commands.set(name, { ...definition, name });
+    return this;
+  }
+
+  /**
+   * Write the registered commands to the community's commands setting (replaces the existing list)
+   * Only the commands are sent; other community settings are not touched
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  async sync(requestOptions?: RequestOptions): Promise<void> {
+    const commands = [...this.commands.values()].map((command) => ({
+      name: command.name,
+      description: command.description,
+      usage: this.usage(command),
+      adminOnly: Boolean(command.adminOnly),
+      args: (command.args ?? []).map((argument: CommandArgument) => ({
+        name: argument.name,
+        type: argument.type ?? 'string',
+        required: argument.required !== false,
+        ...(argument.description && { description: argument.description })
+      }))
+    }));
+
+    await this.client.updateCommunityCommands(this.communityId(), commands, requestOptions);
+  }
+
+  /**
+   * Help text for every command, or usage of one command
+   * @param name - Command name (with or without the prefix)
+   */
+  helpText(name?: string): string {
+    if (name) {
+      const command = this.commands.get(this.stripPrefix(name).toLowerCase());
+      if (!command) return `Unknown command ${this.prefix}${this.stripPrefix(name)}`;
+
+      const lines = [`${this.usage(command)} - ${command.description}`];
+      for (const argument of (command.args ?? []) as readonly CommandArgument[]) {
+        if (argument.description) lines.push(`  ${argument.name}: ${argument.description}`);
+      }
+      if (command.adminOnly) lines.push('Admins only.');
+      return lines.join('\n');
+    }
+
+    const lines = ['Available commands:'];
+    for (const command of this.commands.values()) {
+      lines.push(`${this.usage(command)} - ${command.description}${command.adminOnly ? ' (admins only)' : ''}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Run the command in a message and reply in its channel
+   * Bad arguments, missing admin rights and handler errors are answered in the channel (unknown commands only with replyToUnknown)
+   * @param incoming - Message text, author and channel
+   * @param requestOptions - Optional signal, timeout and retry settings for the admin check and replies
+   */
+  async handle(incoming: IncomingCommand, requestOptions?: RequestOptions): Promise<CommandOutcome> {
+    const text = incoming.text.trim();
+    if (!text.startsWith(this.prefix) || text.length === this.prefix.length) return 'ignored';
+
+    const body = text.slice(this.prefix.length);
+    const [head] = tokenize(body);
+    if (!head) return 'ignored';
+
+    const communityId = incoming.communityId || this.communityId();
+    const reply = (message: string) =>
+      this.client.sendMessage(incoming.channelId, message, communityId, undefined, requestOptions);
+
+    const command = this.commands.get(head.value.toLowerCase());
+    if (!command) {
+      if (!this.options.replyToUnknown) return 'unknown';
+      const hint = this.commands.has('help') ? ` Type ${this.prefix}help for a list of commands.` : '';
+      await reply(`Unknown command ${this.prefix}${head.value}.${hint}`);
+      return 'unknown';
+    }
+
+    let args: Record<string, unknown>;
+    try {
+      args = this.parseArgs(command, body.slice(head.end));
+    } catch (error) {
+      if (!(error instanceof SwitchXValidationError)) throw error;
+      await reply(`${error.message}\nUsage: ${this.usage(command)}`);
+      return 'invalid';
+    }
+
+    if (command.adminOnly && !(await this.client.isAdmin(incoming.userId, communityId, requestOptions))) {
+      await reply(`Only community admins can use ${this.prefix}${command.name}.`);
+      return 'forbidden';
+    }
+
+    const context: CommandContext<any> = { args, command: incoming, communityId, client: this.client, reply };
+
+    try {
+      const result = await command.handler(context);
+      if (typeof result === 'string' && result) await reply(result);
+      return 'handled';
+    } catch (error) {
+      const onError = command.onError ?? this.options.onError;
+      if (onError) {
+        const message = await onError(error, context);
+        if (typeof message === 'string' && message) await reply(message);
+      } else {
+        console.warn(`[SwitchX] ${this.prefix}${command.name} failed:`, error);
+        await reply(`Something went wrong running ${this.prefix}${command.name}.`);
+      }
+      return 'failed';
+    }
+  }
+
+  /**
+   * Handle every new channel message seen by a watcher
+   * Errors from handle() (e.g. failed replies) are logged
+   * @param watcher - Watcher from client.watch()
+   * @returns Function that detaches the router
+   */
+  attach(watcher: SwitchXWatcher): () => void {
+    return watcher.on('message.created', ({ conversation, message }) => {
+      if (conversation.type !== 'channel') return;
+
+      this.handle({
+        text: message.message,
+        userId: message.userId,
+        channelId: conversation.id,
+        communityId: conversation.communityId,
+        messageId: message.id
+      }).catch((error) => {
+        console.warn('[SwitchX] command handling failed:', error);
+      });
+    });
+  }
+
+  private parseArgs(command: CommandDefinition<any>, input: string): Record<string, unknown> {
+    const schema: readonly CommandArgument[] = command.args ?? [];
+    const tokens = tokenize(input);
+    const args: Record<string, unknown> = {};
+
+    schema.forEach((argument, index) => {
+      let raw: string | undefined;
+      if (argument.rest) {
+        const start = index === 0 ? 0 : tokens[index - 1]?.end ?? input.length;
+        raw = input.slice(start).trim() || undefined;
+      } else {
+        raw = tokens[index]?.value;
+      }
+
+      if (raw === undefined) {
+        if (argument.required !== false) {
+          throw new SwitchXValidationError(`Missing ${argument.name}`);
+        }
+        return;
+      }
+      args[argument.name] = convert(argument, raw);
+    });
+
+    const lastArgument = schema[schema.length - 1];
+    if (!lastArgument?.rest && tokens.length > schema.length) {
+      throw new SwitchXValidationError(`Too many arguments for ${this.prefix}${command.name}`);
+    }
+
+    return args;
+  }
+
+  private usage(command: CommandDefinition<any>): string {
+    const args = ((command.args ?? []) as readonly CommandArgument[]).map((argument) => {
+      const label = argument.rest ? `${argument.name}...` : argument.name;
+      return argument.required === false ? `[${label}]` : `<${label}>`;
+    });
+    return [`${this.prefix}${command.name}`, ...args].join(' ');
+  }
+
+  private stripPrefix(name: string): string {
+    return name.startsWith(this.prefix) ? name.slice(this.prefix.length) : name;
+  }
+
+  private communityId(): string {
+    const communityId = this.options.communityId || this.client.getDefaultCommunityId();
+    if (!communityId) {
+      throw new SwitchXValidationError('Community ID is required. Pass it to the router or set defaultCommunityId on the client.');
+    }
+    return communityId;
+  }
+}
@@ -1,17 +1,36 @@
 /**
  * Server-only SwitchX SDK
- * Uses Node.js specific APIs (Buffer, form-data)
+ * Uses Node.js specific APIs (Buffer)
  * For Next.js API routes, server actions, and backend services
  *
  * IMPORTANT: Uses MINIAPPS_TOKEN (server/bot token) not user tokens
  */
 
-import axios from 'axios';
-import FormData from 'form-data';
 import { SwitchXCore } from '../core';
-import type { NotificationOptions } from '../types';
+import { SwitchXError, SwitchXValidationError } from '../core/errors';
+import { appInfoResponse } from '../core/schemas';
+import { PLATFORM_TIMEOUT } from '../core/http';
+import { MessageMediaType, mimeTypeFromFilename } from '../core/media';
+import { SwitchXCommandRouter } from './commands';
+import type { CommandRouterOptions } from './commands';
+import { SwitchXWebhooks } from './webhooks';
+import type { WebhookOptions } from './webhooks';
+import type {
+  NotificationOptions,
+  SwitchXClientOptions,
+  SwitchXEnvironment,
+  RequestOptions,
+  MiniAppInfo,
+  MediaMessageOptions,
+  SentMessage
+} from '../types';
 
-const SWITCH_UPLOAD_URL = "https://de.switchx.dev/upload/stream";
+/**
+ * Wrap a Node.js Buffer in a Blob for multipart uploads
+ */
+function toBlob(buffer: Buffer, mimeType: string): Blob {
+  return new Blob([new Uint8Array(buffer)], { type: mimeType });
+}
 
 /**
  * Server-side SwitchX Client
@@ -20,6 +39,7 @@ const SWITCH_UPLOAD_URL = "https://de.switchx.dev/upload/stream";
  * @example
  * import { SwitchXServer } from '@switchx/apps-sdk/server';
  * const client = new SwitchXServer(process.env.MINIAPPS_TOKEN);
+ * const staging = new SwitchXServer(process.env.MINIAPPS_TOKEN, { environment: 'staging' });
  * const community = await client.getCommunity(communityId);
  * const imageUrl = await client.uploadImage(base64Data);
  */
@@ -27,9 +47,11 @@ export class SwitchXServer extends SwitchXCore {
   /**
    * Create server SDK instance with MINIAPPS_TOKEN
    * @param token - Server/bot token (MINIAPPS_TOKEN from env)
+   * @param options - Optional client settings (environment, endpoints, retry, timeout, fetch),
+   *   or just the default community ID
    */
-  constructor(token: string) {
-    super(token);
+  constructor(token: string, options: SwitchXClientOptions | string = {}) {
+    super(token, options);
   }
 
   // ===== All core READ methods are inherited automatically! =====
@@ -49,39 +71,17 @@ export class SwitchXServer extends SwitchXCore {
    * Upload an image from base64 data (Node.js only - uses Buffer)
    * @param base64Data - Base64 encoded image
    * @param mimeType - MIME type (default: image/png)
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async uploadImage(base64Data: string, mimeType: string = 'image/png'): Promise<string> {
-    try {
-      const imageBuffer = Buffer.from(base64Data, 'base64');
-      const formData = new FormData();
-      const filename = `upload_${Date.now()}.png`;
+  async uploadImage(
+    base64Data: string,
+    mimeType: string = 'image/png',
+    requestOptions?: RequestOptions
+  ): Promise<string> {
+    const imageBuffer = Buffer.from(base64Data, 'base64');
+    const filename = `upload_${Date.now()}.png`;
 
-      formData.append('files', imageBuffer, {
-        filename,
-        contentType: mimeType
-      });
-
-      const headers: any = {
-        ...formData.getHeaders(),
-        'Accept': '*/*',
-        'Authorization': this.getToken()
-      };
-
-      const response = await axios.post(SWITCH_UPLOAD_URL, formData, {
-        headers,
-        timeout: 60000,
-        maxContentLength: Infinity,
-        maxBodyLength: Infinity
-      });
-
-      if (response.data?.files && response.data.files.length > 0) {
-        return response.data.files[0].url;
-      }
-
-      throw new Error('No URL returned from upload');
-    } catch (error: any) {
-      throw new Error(`Failed to upload image: ${error.message}`);
-    }
+    return this.uploadBlob(toBlob(imageBuffer, mimeType), filename, 'Failed to upload image', requestOptions);
   }
 
   /**
@@ -89,37 +89,150 @@ export class SwitchXServer extends SwitchXCore {
    * @param buffer - File buffer
    * @param filename - File name
    * @param mimeType - MIME type
+   * @param requestOptions - Optional signal, timeout and retry settings
    */
-  async uploadFromBuffer(buffer: Buffer, filename: string, mimeType: string): Promise<string> {
-    try {
-      const formData = new FormData();
+  async uploadFromBuffer(
+    buffer: Buffer,
+    filename: string,
+    mimeType: string,
+    requestOptions?: RequestOptions
+  ): Promise<string> {
+    return this.uploadBlob(toBlob(buffer, mimeType), filename, 'Failed to upload file', requestOptions);
+  }
 
-      formData.append('files', buffer, {
-        filename,
-        contentType: mimeType
-      });
+  /**
+   * Upload an image from a Node.js buffer and send it to a channel (server-only)
+   * Sent with image dimensions when the header is PNG, GIF, JPEG or WebP
+   * @param channelId - Channel ID
+   * @param buffer - Image buffer
+   * @param filename - File name (the MIME type is guessed from it unless options.mimeType is set)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Optional caption and MIME type
+   * @param requestOptions - Optional signal, timeout and retry settings
+   *
+   * @example
+   * const chart = await renderChart();
+   * await client.sendImageFromBuffer(channelId, chart, 'chart.png', communityId, { caption: 'Weekly stats' });
+   */
+  async sendImageFromBuffer(
+    channelId: string,
+    buffer: Buffer,
+    filename: string,
+    communityId?: string,
+    options?: Omit<MediaMessageOptions, 'filename'>,
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    return this.sendBuffer(MessageMediaType.Image, channelId, buffer, filename, communityId, options, requestOptions);
+  }
 
-      const headers: any = {
-        ...formData.getHeaders(),
-        'Accept': '*/*',
-        'Authorization': this.getToken()
-      };
+  /**
+   * Upload a video from a Node.js buffer and send it to a channel (server-only)
+   * @param channelId - Channel ID
+   * @param buffer - Video buffer
+   * @param filename - File name (the MIME type is guessed from it unless options.mimeType is set)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Optional caption and MIME type
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  async sendVideoFromBuffer(
+    channelId: string,
+    buffer: Buffer,
+    filename: string,
+    communityId?: string,
+    options?: Omit<MediaMessageOptions, 'filename'>,
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    return this.sendBuffer(MessageMediaType.Video, channelId, buffer, filename, communityId, options, requestOptions);
+  }
 
-      const response = await axios.post(SWITCH_UPLOAD_URL, formData, {
-        headers,
-        timeout: 60000,
-        maxContentLength: Infinity,
-        maxBodyLength: Infinity
-      });
+  /**
+   * Upload an audio file from a Node.js buffer and send it to a channel (server-only)
+   * @param channelId - Channel ID
+   * @param buffer - Audio buffer
+   * @param filename - File name (the MIME type is guessed from it unless options.mimeType is set)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Optional caption and MIME type
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  async sendAudioFromBuffer(
+    channelId: string,
+    buffer: Buffer,
+    filename: string,
+    communityId?: string,
+    options?: Omit<MediaMessageOptions, 'filename'>,
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    return this.sendBuffer(MessageMediaType.Audio, channelId, buffer, filename, communityId, options, requestOptions);
+  }
+
+  /**
+   * Upload a document from a Node.js buffer and send it to a channel (server-only)
+   * @param channelId - Channel ID
+   * @param buffer - Document buffer
+   * @param filename - File name (the MIME type is guessed from it unless options.mimeType is set)
+   * @param communityId - Community ID (defaults to the client's community)
+   * @param options - Optional caption and MIME type
+   * @param requestOptions - Optional signal, timeout and retry settings
+   */
+  async sendDocumentFromBuffer(
+    channelId: string,
+    buffer: Buffer,
+    filename: string,
+    communityId?: string,
+    options?: Omit<MediaMessageOptions, 'filename'>,
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    return this.sendBuffer(MessageMediaType.Document, channelId, buffer, filename, communityId, options, requestOptions);
+  }
 
-      if (response.data?.files && response.data.files.length > 0) {
-        return response.data.files[0].url;
-      }
+  /**
+   * Wrap a buffer in a Blob with its MIME type and send it as a media message
+   */
+  private sendBuffer(
+    type: MessageMediaType,
+    channelId: string,
+    buffer: Buffer,
+    filename: string,
+    communityId?: string,
+    options: Omit<MediaMessageOptions, 'filename'> = {},
+    requestOptions?: RequestOptions
+  ): Promise<SentMessage> {
+    const mimeType = options.mimeType || mimeTypeFromFilename(filename);
 
-      throw new Error('No URL returned from upload');
-    } catch (error: any) {
-      throw new Error(`Failed to upload file: ${error.message}`);
-    }
+    return this.sendMedia(
+      type,
+      channelId,
+      toBlob(buffer, mimeType),
+      communityId,
+      { ...options, filename, mimeType },
+      requestOptions
+    );
+  }
+
+  /**
+   * Create a slash-command router that replies with this client
+   * @param options - Community, prefix, help command and fallback error handling
+   *
+   * @example
+   * const router = client.commands({ communityId });
+   * router.command({ name: 'ping', description: 'Check the bot is alive', handler: () => 'pong' });
+   * await router.sync();
+   */
+  commands(options?: CommandRouterOptions): SwitchXCommandRouter {
+    return new SwitchXCommandRouter(this, options);
+  }
+
+  /**
+   * Create a webhook receiver that verifies deliveries signed with this client's token
+   * @param options - Signing secret override and timestamp tolerance
+   *
+   * @example
+   * const webhooks = client.webhooks();
+   * webhooks.on('message.created', ({ data }) => console.log(data.message));
+   * export const POST = webhooks.fetchHandler();
+   */
+  webhooks(options?: WebhookOptions): SwitchXWebhooks {
+    return new SwitchXWebhooks(this, options);
   }
 
   /**
@@ -145,7 +258,8 @@ export class SwitchXServer extends SwitchXCore {
    * Server-only operation requiring miniapp token
    *
    * @param options - Notification configuration
-   * @throws Error if notification fails to send
+   * @param requestOptions - Optional signal, timeout and retry settings (pass { retry: true } to retry transient failures)
+   * @throws SwitchXError if notification fails to send
    *
    * @example
    * await client.sendNotification({
@@ -158,43 +272,40 @@ export class SwitchXServer extends SwitchXCore {
    *   customData: { action: 'view_update' }
    * });
    */
-  async sendNotification(options: NotificationOptions): Promise<void> {
-    try {
-      // Map camelCase to snake_case for backend API
-      const payload = {
-        user_id: options.userId,
-        notification_type: options.notificationType,
-        title: options.title,
-        message: options.message,
-        community_id: options.communityId,
-        ...(options.image && { image: options.image }),
-        ...(options.actionBy && { action_by: options.actionBy }),
-        ...(options.actionByUsername && { action_by_username: options.actionByUsername }),
-        ...(options.actionByImage && { action_by_image: options.actionByImage }),
-        ...(options.customData && { custom_data: options.customData })
-      };
+  async sendNotification(options: NotificationOptions, requestOptions?: RequestOptions): Promise<void> {
+    const url = `${this.endpoints.platform}/miniapp/send-notification-fcm`;
+
+    // Map camelCase to snake_case for backend API
+    const payload = {
+      user_id: options.userId,
+      notification_type: options.notificationType,
+      title: options.title,
+      message: options.message,
+      community_id: options.communityId,
+      ...(options.image && { image: options.image }),
+      ...(options.actionBy && { action_by: options.actionBy }),
+      ...(options.actionByUsername && { action_by_username: options.actionByUsername }),
+      ...(options.actionByImage && { action_by_image: options.actionByImage }),
+      ...(options.customData && { custom_data: options.customData })
+    };
 
-      const response = await axios.post(
-        'https://de.switchx.dev/api/miniapp/send-notification-fcm',
-        payload,
-        {
-          headers: {
-            'Authorization': this.getToken(),
-            'Content-Type': 'application/json'
-          },
-          timeout: 10000
-        }
-      );
+    // Notifications are not idempotent - retries only when requested via requestOptions.retry
+    const data = await this.request<any>(url, {
+      method: 'POST',
+      json: payload,
+      action: 'Failed to send notification',
+      timeout: PLATFORM_TIMEOUT,
+      ...requestOptions
+    });
 
-      if (!response.data?.success) {
-        throw new Error(response.data?.error || 'Failed to send notification');
-      }
-    } catch (error: any) {
-      if (error.response) {
-        const detail = error.response.data?.detail || error.response.statusText;
-        throw new Error(`Failed to send notification: ${detail}`);
-      }
-      throw new Error(`Failed to send notification: ${error.message}`);
+    if (!data?.success) {
+      const serverMessage = data?.error || 'Notification was not accepted';
+      throw new SwitchXError(`Failed to send notification: ${serverMessage}`, {
+        method: 'POST',
+        url,
+        serverMessage,
+        body: data
+      });
     }
   }
 
@@ -202,47 +313,29 @@ export class SwitchXServer extends SwitchXCore {
    * Get miniapp project information (basic metadata only)
    * Returns info about the current miniapp (requires miniapp token with project_id)
    *
+   * @param requestOptions - Optional signal, timeout and retry settings
    * @returns Basic project metadata
    *
    * @example
    * const appInfo = await client.getAppInfo();
    * console.log(appInfo.name, appInfo.description, appInfo.productionUrl);
    */
-  async getAppInfo(): Promise<{
-    name: string;
-    description: string;
-    emoji: any;
-    createdBy: number;
-    productionUrl: string | null;
-  }> {
-    try {
-      const response = await axios.get(
-        'https://de.switchx.dev/api/mcp/project',
-        {
-          headers: {
-            'Authorization': this.getToken()
-          },
-          timeout: 10000
-        }
-      );
+  async getAppInfo(requestOptions?: RequestOptions): Promise<MiniAppInfo> {
+    const data = await this.request(`${this.endpoints.platform}/mcp/project`, {
+      action: 'Failed to get app info',
+      decoder: appInfoResponse,
+      timeout: PLATFORM_TIMEOUT,
+      ...requestOptions
+    });
 
-      const data = response.data;
-
-      // Return only basic metadata
-      return {
-        name: data.name,
-        description: data.description,
-        emoji: data.emoji,
-        createdBy: data.created_by,
-        productionUrl: data.deployment_meta?.production_url || null
-      };
-    } catch (error: any) {
-      if (error.response) {
-        const detail = error.response.data?.detail || error.response.statusText;
-        throw new Error(`Failed to get app info: ${detail}`);
-      }
-      throw new Error(`Failed to get app info: ${error.message}`);
-    }
+    // Return only basic metadata
+    return {
+      name: data.name,
+      description: data.description,
+      emoji: data.emoji,
+      createdBy: data.created_by,
+      productionUrl: data.deployment_meta.production_url || null
+    };
   }
 
   // ===== AI Operations are inherited from Core =====
@@ -253,6 +346,8 @@ export class SwitchXServer extends SwitchXCore {
 /**
  * Helper to create a configured server instance from environment
  * Auto-loads token from SWITCHX_TOKEN or MINIAPPS_TOKEN env vars
+ * and the environment profile from SWITCHX_ENV
+ * When the token comes from env, a 401 re-reads the env vars (e.g. after a secret rotation) and replays once
  *
  * @example
  * // Auto-load from environment
@@ -261,21 +356,91 @@ export class SwitchXServer extends SwitchXCore {
  *
  * // Or pass token explicitly
  * const client = createServerClient({ token: process.env.MINIAPPS_TOKEN });
+ *
+ * // Point at a local mock server
+ * const client = createServerClient({ environment: 'local' });
  */
-export function createServerClient(config?: {
+export function createServerClient(config?: SwitchXClientOptions & {
   token?: string;
 }): SwitchXServer {
   const token = config?.token || process.env.SWITCHX_TOKEN || process.env.MINIAPPS_TOKEN;
 
   if (!token) {
-    throw new Error(
+    throw new SwitchXValidationError(
       'Token is required. Pass config.token or set SWITCHX_TOKEN/MINIAPPS_TOKEN env var.'
     );
   }
 
-  return new SwitchXServer(token);
+  const { token: _token, ...options } = config || {};
+  const environment = options.environment || (process.env.SWITCHX_ENV as SwitchXEnvironment | undefined);
+  const onUnauthorized = options.onUnauthorized
+    ?? (config?.token ? undefined : () => process.env.SWITCHX_TOKEN || process.env.MINIAPPS_TOKEN);
+
+  return new SwitchXServer(token, { ...options, environment, onUnauthorized });
 }
 
+// Export command router
+export { SwitchXCommandRouter } from './commands';
+export type {
+  CommandArgument,
+  CommandArgs,
+  CommandContext,
+  CommandDefinition,
+  CommandOutcome,
+  CommandRouterOptions,
+  IncomingCommand
+} from './commands';
+
+// Export webhook receiver
+export { SwitchXWebhooks, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './webhooks';
+export type {
+  SwitchXWebhookEvent,
+  SwitchXWebhookEventType,
+  MessageCreatedWebhook,
+  MemberJoinedWebhook,
+  ReactionAddedWebhook,
+  AppInstalledWebhook,
+  WebhookHeaders,
+  WebhookOptions,
+  WebhookResult
+} from './webhooks';
+
 // Re-export core types
 export * from '../types';
-export { SwitchXCore } from '../core';
+export {
+  SwitchXCore,
+  SwitchXCommunity,
+  MessageMediaType,
+  SwitchXWatcher,
+  pollingTransport,
+  AIChatStream,
+  AI_MODELS,
+  SwitchXAgent,
+  sdkTools,
+  AIConversation,
+  SWITCHX_ENVIRONMENTS,
+  resolveEndpoints,
+  MemoryCacheStorage,
+  LocalStorageCacheStorage,
+  DEFAULT_CACHE_TTL,
+  SwitchXError,
+  SwitchXDecodeError,
+  SwitchXWebhookError,
+  SwitchXAuthError,
+  SwitchXNotFoundError,
+  SwitchXRateLimitError,
+  SwitchXValidationError,
+  SwitchXNetworkError,
+  SwitchXTimeoutError
+} from '../core';
+export type { SwitchXErrorDetails, SwitchXDecodeIssue } from '../core';
+export type {
+  AgentTool,
+  AgentToolContext,
+  AgentToolResult,
+  AgentStep,
+  AgentStopReason,
+  AgentRunResult,
+  AgentOptions
+} from '../core';
+export type { ConversationOptions, ConversationSnapshot, ConversationStrategy } from '../core';
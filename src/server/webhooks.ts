@@ -0,0 +1,361 @@
+/**
+ * Webhook receiver for SwitchX servers
+ * Verifies HMAC-signed deliveries, rejects replays and dispatches typed events
+ * Works with Node http, Express-style middleware and Fetch Request/Response handlers
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { SwitchXDecodeError, SwitchXWebhookError } from '../core/errors';
+import { decodeResponse, object } from '../core/decode';
+import type { Decoder } from '../core/decode';
+import { toSentMessage } from '../core/mappers';
+import {
+  webhookEnvelope,
+  webhookMessageCreated,
+  webhookMemberJoined,
+  webhookReactionAdded,
+  webhookAppInstalled
+} from '../core/schemas';
+import type { SwitchXServer } from './index';
+import type { SentMessage } from '../types';
+
+export const SIGNATURE_HEADER = 'x-switchx-signature';
+export const TIMESTAMP_HEADER = 'x-switchx-timestamp';
+
+/** Default accepted clock difference, in seconds */
+export const DEFAULT_WEBHOOK_TOLERANCE = 300;
+
+interface WebhookEventBase<T extends string, D> {
+  /** Delivery ID (used to drop duplicates) */
+  id: string;
+  type: T;
+  /** Signing time, epoch milliseconds */
+  timestamp: number;
+  data: D;
+}
+
+export type MessageCreatedWebhook = WebhookEventBase<'message.created', SentMessage>;
+
+export type MemberJoinedWebhook = WebhookEventBase<'member.joined', {
+  userId: string;
+  communityId: string;
+  groupId?: string;
+  referredByUserId?: string;
+}>;
+
+export type ReactionAddedWebhook = WebhookEventBase<'reaction.added', {
+  messageId: string;
+  userId: string;
+  emoji: string;
+  communityId?: string;
+  channelId?: string;
+  groupId?: string;
+}>;
+
+export type AppInstalledWebhook = WebhookEventBase<'app.installed', {
+  communityId: string;
+  installedBy?: string;
+}>;
+
+/**
+ * Verified webhook delivery
+ */
+export type SwitchXWebhookEvent =
+  | MessageCreatedWebhook
+  | MemberJoinedWebhook
+  | ReactionAddedWebhook
+  | AppInstalledWebhook;
+
+export type SwitchXWebhookEventType = SwitchXWebhookEvent['type'];
+
+type WebhookListener<K extends SwitchXWebhookEventType> =
+  (event: Extract<SwitchXWebhookEvent, { type: K }>) => void | Promise<void>;
+
+/**
+ * Request headers as Node (IncomingHttpHeaders) or Fetch (Headers) provide them
+ */
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>;
+
+/**
+ * Status and JSON body to answer a delivery with
+ */
+export interface WebhookResult {
+  status: number;
+  body: { received: boolean; ignored?: boolean; duplicate?: boolean; error?: string };
+}
+
+export interface WebhookOptions {
+  /**
+   * Signing secret
+   * Default: the client's token (MINIAPPS_TOKEN)
+   */
+  secret?: string;
+  /**
+   * Maximum age (and clock skew) of a delivery, in seconds
+   * Default: 300
+   */
+  tolerance?: number;
+}
+
+// Maps each event type to the decoder and mapper for its data
+// Decoders read the whole payload, so problems are reported at paths like data.userId
+const EVENT_DATA: {
+  [K in SwitchXWebhookEventType]: (payload: unknown) => Extract<SwitchXWebhookEvent, { type: K }>['data']
+} = {
+  'message.created': (payload) => toSentMessage(decodeData(object({ data: webhookMessageCreated }), payload).data),
+  'member.joined': (payload) => withoutEmpty(decodeData(object({ data: webhookMemberJoined }), payload).data),
+  'reaction.added': (payload) => withoutEmpty(decodeData(object({ data: webhookReactionAdded }), payload).data),
+  'app.installed': (payload) => withoutEmpty(decodeData(object({ data: webhookAppInstalled }), payload).data)
+};
+
+function decodeData<T>(decoder: Decoder<T>, payload: unknown): T {
+  return decodeResponse(decoder, payload, { action: 'Invalid webhook payload', method: '', url: '' });
+}
+
+// Decode issues describe the delivery, not an API response
+function payloadError(error: SwitchXDecodeError): SwitchXWebhookError {
+  const problems = error.issues
+    .map((issue) => `${issue.path || 'body'} should be ${issue.expected}, got ${issue.received}`)
+    .join('; ');
+  return new SwitchXWebhookError(`Invalid webhook payload: ${problems}`, { status: 400, cause: error });
+}
+
+// Optional IDs decode to '' - drop them so they read as undefined
+function withoutEmpty<T extends Record<string, unknown>>(data: T): T {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== '')) as T;
+}
+
+function isEventType(type: string): type is SwitchXWebhookEventType {
+  return Object.prototype.hasOwnProperty.call(EVENT_DATA, type);
+}
+
+function readHeader(headers: WebhookHeaders, name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, string | string[] | undefined>)[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Webhook endpoint bound to a server client
+ *
+ * @example
+ * const webhooks = client.webhooks();
+ * webhooks.on('member.joined', async ({ data }) => {
+ *   await client.sendMessage(welcomeChannelId, `Welcome <@${data.userId}>!`, data.communityId);
+ * });
+ *
+ * // Next.js route: app/api/switchx/route.ts
+ * export const POST = webhooks.fetchHandler();
+ *
+ * // Node http / Express (mount before any body parser, or use express.raw())
+ * app.post('/switchx', webhooks.nodeHandler());
+ */
+export class SwitchXWebhooks {
+  private readonly listeners = new Map<SwitchXWebhookEventType, Set<WebhookListener<any>>>();
+  // Delivery IDs seen within the tolerance window, with their expiry (epoch ms)
+  private readonly seen = new Map<string, number>();
+  private readonly tolerance: number;
+
+  /**
+   * @param client - Server client whose token signs the deliveries
+   * @param options - Signing secret and timestamp tolerance
+   */
+  constructor(private readonly client: SwitchXServer, private readonly options: WebhookOptions = {}) {
+    this.tolerance = options.tolerance ?? DEFAULT_WEBHOOK_TOLERANCE;
+  }
+
+  /**
+   * Listen for an event type
+   * A listener that throws makes the delivery fail with 500 so the sender retries it
+   * @returns Function that removes the listener
+   */
+  on<K extends SwitchXWebhookEventType>(type: K, listener: WebhookListener<K>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners!.delete(listener);
+    };
+  }
+
+  /**
+   * Signature headers for a body (for tests and local tooling)
+   * @param body - Raw request body
+   * @param timestamp - Signing time in seconds (default: now)
+   */
+  sign(body: string | Uint8Array, timestamp = Math.floor(Date.now() / 1000)): Record<string, string> {
+    return {
+      [SIGNATURE_HEADER]: `sha256=${this.digest(body, String(timestamp))}`,
+      [TIMESTAMP_HEADER]: String(timestamp)
+    };
+  }
+
+  /**
+   * Check the signature and timestamp of a delivery and parse it
+   * @param body - Raw request body, exactly as received
+   * @param headers - Request headers
+   * @returns The event, or null for event types this SDK version does not know
+   * @throws SwitchXWebhookError with status 401 (signature, timestamp) or 400 (payload)
+   */
+  verify(body: string | Uint8Array, headers: WebhookHeaders): SwitchXWebhookEvent | null {
+    const signature = readHeader(headers, SIGNATURE_HEADER);
+    const timestamp = readHeader(headers, TIMESTAMP_HEADER);
+
+    if (!signature || !timestamp) {
+      throw new SwitchXWebhookError('Webhook signature or timestamp header missing', { status: 401 });
+    }
+
+    const seconds = Number(timestamp);
+    if (!Number.isFinite(seconds) || Math.abs(Date.now() / 1000 - seconds) > this.tolerance) {
+      throw new SwitchXWebhookError('Webhook timestamp outside the allowed window', { status: 401 });
+    }
+
+    const expected = Buffer.from(this.digest(body, timestamp), 'hex');
+    const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      throw new SwitchXWebhookError('Webhook signature does not match', { status: 401 });
+    }
+
+    try {
+      const text = typeof body === 'string' ? body : Buffer.from(body).toString('utf8');
+      const payload: unknown = JSON.parse(text);
+      const envelope = decodeData(webhookEnvelope, payload);
+      if (!isEventType(envelope.type)) return null;
+
+      return {
+        id: envelope.id,
+        type: envelope.type,
+        timestamp: seconds * 1000,
+        data: EVENT_DATA[envelope.type](payload)
+      } as SwitchXWebhookEvent;
+    } catch (error) {
+      if (error instanceof SwitchXDecodeError) {
+        throw payloadError(error);
+      }
+      if (error instanceof SyntaxError) {
+        throw new SwitchXWebhookError(`Invalid webhook payload: ${error.message}`, { status: 400, cause: error });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Verify a delivery, drop duplicates and run the listeners
+   * Framework adapters call this; use it directly for other servers
+   * @param body - Raw request body, exactly as received
+   * @param headers - Request headers
+   */
+  async handle(body: string | Uint8Array, headers: WebhookHeaders): Promise<WebhookResult> {
+    let event: SwitchXWebhookEvent | null;
+    try {
+      event = this.verify(body, headers);
+    } catch (error) {
+      if (!(error instanceof SwitchXWebhookError)) throw error;
+      return { status: error.status ?? 400, body: { received: false, error: error.message } };
+    }
+
+    if (!event) {
+      return { status: 200, body: { received: true, ignored: true } };
+    }
+
+    const key = event.id || readHeader(headers, SIGNATURE_HEADER)!;
+    if (!this.remember(key)) {
+      return { status: 200, body: { received: true, duplicate: true } };
+    }
+
+    try {
+      await Promise.all([...(this.listeners.get(event.type) ?? [])].map((listener) => listener(event)));
+    } catch (error) {
+      // Let the sender's retry through
+      this.seen.delete(key);
+      console.warn(`[SwitchX] webhook ${event.type} listener failed:`, error);
+      return { status: 500, body: { received: false, error: 'Webhook listener failed' } };
+    }
+
+    return { status: 200, body: { received: true } };
+  }
+
+  /**
+   * Handler for Fetch-style servers (Next.js route handlers, Hono, Bun, Deno)
+   */
+  fetchHandler(): (request: Request) => Promise<Response> {
+    return async (request) => {
+      const body = new Uint8Array(await request.arrayBuffer());
+      const result = await this.handle(body, request.headers);
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    };
+  }
+
+  /**
+   * Handler for Node http servers and Express-style middleware
+   * Reads the raw body from the stream, or from req.body when it is a Buffer or string (express.raw())
+   */
+  nodeHandler(): (
+    req: IncomingMessage & { body?: unknown },
+    res: ServerResponse,
+    next?: (error?: unknown) => void
+  ) => Promise<void> {
+    return async (req, res, next) => {
+      try {
+        const result = await this.handle(await readNodeBody(req), req.headers);
+        res.statusCode = result.status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(result.body));
+      } catch (error) {
+        if (next) {
+          next(error);
+          return;
+        }
+        res.statusCode = 500;
+        res.end();
+      }
+    };
+  }
+
+  private digest(body: string | Uint8Array, timestamp: string): string {
+    const secret = this.options.secret || this.client.getToken();
+    return createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+  }
+
+  /**
+   * Record a delivery ID, returning false if it was already seen within the tolerance window
+   */
+  private remember(key: string): boolean {
+    const now = Date.now();
+    for (const [seenKey, expiresAt] of this.seen) {
+      if (expiresAt <= now) this.seen.delete(seenKey);
+    }
+
+    if (this.seen.has(key)) return false;
+    // Twice the tolerance covers timestamps up to `tolerance` in the future
+    this.seen.set(key, now + this.tolerance * 2000);
+    return true;
+  }
+}
+
+async function readNodeBody(req: IncomingMessage & { body?: unknown }): Promise<string | Uint8Array> {
+  if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+    return req.body;
+  }
+  if (req.body !== undefined) {
+    throw new SwitchXWebhookError(
+      'Webhook body was already parsed - mount the handler before body parsers or use express.raw()',
+      { status: 500 }
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
@@ -3,6 +3,8 @@
  * These types are used across all SDK modules
  */
 
+import type { SwitchXAuthError } from '../core/errors';
+
 export interface CommunityInfo {
   id: string;
   name: string;
@@ -56,6 +58,133 @@ export interface ChatHistory {
   hasMore: boolean;
 }
 
+export interface SentMessage extends Message {
+  communityId: string;
+  channelId?: string;
+  groupId?: string;
+  /** Media type code (1=IMAGE, 2=VIDEO, 3=AUDIO, 7=DOCUMENT, 200=STICKER), 0 for plain text */
+  status: number;
+}
+
+export interface Friend {
+  userId: string;
+  username: string;
+  name: string;
+  email: string;
+  profileColour: string;
+  imageUrl: string;
+  status: string;
+}
+
+export interface CurrentUser {
+  userId: string;
+  username: string;
+  name: string;
+  email: string;
+  imageUrl: string;
+  profileColour: string;
+  bio: string;
+  bot: boolean;
+}
+
+export interface Heading {
+  id: string;
+  name: string;
+  position: number;
+  channels: Channel[];
+  groups: Group[];
+}
+
+export interface CommunityDetails extends CommunityInfo {
+  coverUrl: string;
+  type: 'PRIVATE' | 'PUBLIC' | string;
+  category: string;
+  guidelines: string;
+  guidelinesEnabled: boolean;
+  verified: boolean;
+  isPublic: boolean;
+  isFree: boolean;
+  websiteUrl: string;
+  email: string;
+  twitterHandle: string;
+  instagramHandle: string;
+  facebookHandle: string;
+  hashtags: string[];
+  emoji: string[];
+  icon: string;
+}
+
+export interface Notification {
+  id: string;
+  notificationType: string;
+  title: string;
+  message: string;
+  communityId: string;
+  image: string;
+  actionBy: string;
+  actionByUsername: string;
+  actionByImage: string;
+  customData: Record<string, any>;
+  read: boolean;
+  createdAt: string;
+}
+
+export interface CommunityMembership {
+  userId: string;
+  communityId: string;
+  admin: boolean;
+}
+
+export interface Role {
+  id: string;
+  name: string;
+  colour: string;
+  communityId: string;
+}
+
+export interface StickerPack {
+  id: string;
+  name: string;
+  description: string;
+  thumbnailUrl: string;
+  packType: string;
+  stickerCount: number;
+  createdBy: string;
+}
+
+export interface Sticker {
+  id: string;
+  stickerPackId: string;
+  name: string;
+  url: string;
+}
+
+/**
+ * Media details sent with a media message
+ */
+export interface MediaInfo {
+  fileName: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  /** Image width in pixels (images whose header could be read) */
+  width?: number;
+  /** Image height in pixels (images whose header could be read) */
+  height?: number;
+}
+
+/**
+ * Options for sendImage, sendVideo, sendAudio and sendDocument
+ */
+export interface MediaMessageOptions {
+  /** Text sent with the media */
+  caption?: string;
+  /** Upload file name (default: the File name, or a generated one) */
+  filename?: string;
+  /** MIME type (default: the Blob type, or guessed from the file name) */
+  mimeType?: string;
+}
+
 export interface NotificationOptions {
   userId: string | number;
   notificationType: string;  // e.g., "AI_MESSAGE", "MINIAPP_ALERT", "SYSTEM_NOTIFICATION"
@@ -69,6 +198,14 @@ export interface NotificationOptions {
   customData?: Record<string, any>;
 }
 
+export interface MiniAppInfo {
+  name: string;
+  description: string;
+  emoji: any;
+  createdBy: number;
+  productionUrl: string | null;
+}
+
 export interface PaginationOptions {
   limit?: number;
   offset?: number;
@@ -78,3 +215,623 @@ export interface SearchOptions {
   limit?: number;
   page?: number;
 }
+
+/**
+ * Date accepted by message queries: Date, epoch milliseconds or ISO string
+ */
+export type MessageTime = Date | number | string;
+
+/**
+ * A channel or a group (exactly one of the two IDs)
+ */
+export type ConversationTarget =
+  | { channelId: string; groupId?: undefined }
+  | { groupId: string; channelId?: undefined };
+
+/**
+ * Conversation and window for getMessages
+ */
+export type MessageQuery = ConversationTarget & {
+  /** Community ID (defaults to the client's community) */
+  communityId?: string;
+  /** Only messages older than this message ID (load older pages) */
+  before?: string;
+  /** Only messages newer than this message ID (incremental sync - returns the oldest `limit` of them) */
+  after?: string;
+  /** Only messages sent at or after this time */
+  since?: MessageTime;
+  /** Only messages sent at or before this time */
+  until?: MessageTime;
+  /** Maximum messages per page (default 100) */
+  limit?: number;
+};
+
+/**
+ * One page of getMessages results with cursors for the next call
+ */
+export interface MessagePage {
+  /** Newest first */
+  messages: Message[];
+  /** More messages match the query (older ones, or with only `after`, newer ones) */
+  hasMore: boolean;
+  /** ID of the oldest message in the page - pass as `before` to load older messages */
+  before?: string;
+  /** ID of the newest message in the page - pass as `after` to fetch newer messages */
+  after?: string;
+}
+
+/**
+ * Output format for conversation exports
+ * - jsonl: one JSON object per message
+ * - csv: id, sentDate, userId, author, message, mediaUrl columns
+ * - markdown: readable transcript
+ */
+export type ExportFormat = 'jsonl' | 'csv' | 'markdown';
+
+/**
+ * Conversation, format and filters for exportConversation
+ */
+export type ExportOptions = ConversationTarget & {
+  format: ExportFormat;
+  /** Community ID (defaults to the client's community) */
+  communityId?: string;
+  /** Only messages sent at or after this time */
+  since?: MessageTime;
+  /** Only messages sent at or before this time */
+  until?: MessageTime;
+  /**
+   * Replace user IDs with display names (members list, then getUser)
+   * Default: true
+   */
+  resolveNames?: boolean;
+  /**
+   * Emit messages newest first as pages arrive instead of in chronological order
+   * Default: false (the whole range is read before the first message is emitted)
+   */
+  newestFirst?: boolean;
+  /** Messages fetched per request (default 100) */
+  pageSize?: number;
+  /** Markdown transcript title (default "Channel <id>" / "Group <id>") */
+  title?: string;
+};
+
+export interface IterateOptions {
+  /** Items requested per page (default depends on the endpoint) */
+  pageSize?: number;
+  /** Stop after this many items */
+  max?: number;
+}
+
+/**
+ * Options for batch operations (deleteMessages, addMembers, installStickerPacks)
+ */
+export interface BatchOptions {
+  /**
+   * Items processed at the same time, a whole number of at least 1
+   * Default: 5
+   */
+  concurrency?: number;
+}
+
+/**
+ * Outcome of a batch operation, in input order
+ */
+export interface BatchReport<I> {
+  succeeded: I[];
+  failed: Array<{ item: I; error: Error }>;
+}
+
+/**
+ * Channel or group followed by a watcher
+ */
+export interface WatchConversation {
+  type: 'channel' | 'group';
+  id: string;
+  communityId: string;
+}
+
+export interface MessageCreatedEvent {
+  type: 'message.created';
+  conversation: WatchConversation;
+  message: Message;
+}
+
+export interface MessageEditedEvent {
+  type: 'message.edited';
+  conversation: WatchConversation;
+  message: Message;
+  /** The message as it was last seen */
+  previous: Message;
+}
+
+export interface MessageDeletedEvent {
+  type: 'message.deleted';
+  conversation: WatchConversation;
+  /** The message as it was last seen */
+  message: Message;
+}
+
+/**
+ * Message change reported by a watcher
+ */
+export type WatchEvent = MessageCreatedEvent | MessageEditedEvent | MessageDeletedEvent;
+
+/**
+ * Events a watcher emits, by name
+ */
+export interface WatchEventMap {
+  'message.created': MessageCreatedEvent;
+  'message.edited': MessageEditedEvent;
+  'message.deleted': MessageDeletedEvent;
+  /** Failed poll or transport error (the watcher keeps running) */
+  error: Error;
+}
+
+/**
+ * What a watch transport receives when the watcher starts
+ */
+export interface WatchTransportContext {
+  conversations: WatchConversation[];
+  /** Deliver a message event to listeners */
+  emit(event: WatchEvent): void;
+  /** Report a non-fatal error to 'error' listeners */
+  error(error: unknown): void;
+  /** Aborts when the watcher stops */
+  signal: AbortSignal;
+}
+
+/**
+ * Source of watch events (polling by default, e.g. a WebSocket later)
+ * Runs until context.signal aborts
+ */
+export type WatchTransport = (context: WatchTransportContext) => void | Promise<void>;
+
+/**
+ * Options for client.watch()
+ */
+export interface WatchOptions {
+  /** Community of the conversations (defaults to the client's community) */
+  communityId?: string;
+  channelIds?: string[];
+  groupIds?: string[];
+  /**
+   * Polling interval in milliseconds while messages are arriving
+   * Default: 3000
+   */
+  interval?: number;
+  /**
+   * Longest polling interval when idle (the interval grows by 1.5x per quiet poll)
+   * Default: 30000
+   */
+  maxInterval?: number;
+  /**
+   * Latest messages compared per poll, which bounds how far back edits and deletions are noticed
+   * Default: 50
+   */
+  windowSize?: number;
+  /**
+   * Event source replacing polling
+   */
+  transport?: WatchTransport;
+}
+
+/**
+ * Models known to the SDK (the service may accept others)
+ */
+export type AIModel =
+  | 'gemini-2.5-flash'
+  | 'gemini-2.5-flash-lite'
+  | 'gemini-2.5-pro'
+  | 'gemini-2.0-flash';
+
+/**
+ * Settings for chatWithAI and streamChatWithAI
+ */
+export interface AIChatOptions {
+  /** Default: 'gemini-2.5-flash' (names outside AIModel are sent as is) */
+  model?: AIModel | (string & {});
+  /** Between 0 and 2 (default 0.7) */
+  temperature?: number;
+  /** Positive integer */
+  max_tokens?: number;
+  /** Tokens the model may spend thinking, 0 or more (default 250) */
+  thinking_budget?: number;
+  /** Functions the model may ask to call (see AIChatResponse.toolCalls) */
+  tools?: AIToolDefinition[];
+  /** Whether the model may, must or must not call a tool (default 'auto' when tools are given) */
+  tool_choice?: 'auto' | 'none' | 'required';
+}
+
+/**
+ * JSON Schema describing tool parameters
+ * Only the keywords the SDK checks are typed - anything else is passed to the model as is
+ */
+export interface JSONSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'null';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: unknown[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * Function the model may call
+ */
+export interface AIToolDefinition {
+  /** Letters, digits, underscores and dashes */
+  name: string;
+  description: string;
+  /** Object schema for the arguments */
+  parameters: JSONSchema;
+}
+
+/**
+ * Function call requested by the model
+ */
+export interface AIToolCall {
+  id: string;
+  name: string;
+  /** Parsed JSON arguments (the raw string when the model sent invalid JSON) */
+  arguments: unknown;
+}
+
+/**
+ * Chat message sent to the AI service
+ * Plain { role, content } messages are enough unless tools are involved
+ */
+export interface AIChatMessage {
+  /** 'system', 'user', 'assistant' or 'tool' */
+  role: string;
+  content: string;
+  /** Calls made by an assistant message */
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  /** Call a tool message answers */
+  tool_call_id?: string;
+  /** Tool name, on tool messages */
+  name?: string;
+}
+
+/**
+ * Token counts reported by the AI service
+ */
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Tokens spent on thinking, when the model reports them */
+  thinkingTokens?: number;
+}
+
+/**
+ * Chat completion, from chatWithAI or a finished stream
+ */
+export interface AIChatResponse {
+  /** Response text */
+  text: string;
+  /** Author of the reply, normally 'assistant' */
+  role: string;
+  /** Thinking text, when the model returns it */
+  thinking: string;
+  /** e.g. "stop", "length" (null if the service sent none) */
+  finishReason: string | null;
+  /** null if the service did not report usage */
+  usage: AIUsage | null;
+  /** Tool calls the model asked for (empty when it answered directly) */
+  toolCalls: AIToolCall[];
+  /** Payload as returned by the service (array of chunks for streams) */
+  raw: unknown;
+}
+
+/**
+ * Settings for generateImage
+ */
+export interface AIImageOptions {
+  /** Parts the model should return (default ['TEXT', 'IMAGE']) */
+  response_modalities?: Array<'TEXT' | 'IMAGE'>;
+  /** Input images to edit or draw from */
+  images_base64?: Array<{ data: string; mime_type?: string }>;
+}
+
+export interface AIImage {
+  /** Base64 encoded image data */
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Image generation result
+ */
+export interface AIImageResponse {
+  images: AIImage[];
+  /** Text returned alongside the images */
+  text: string;
+  /** Payload as returned by the service */
+  raw: unknown;
+}
+
+/**
+ * Named endpoint profiles the SDK ships with
+ */
+export type SwitchXEnvironment = 'production' | 'staging' | 'local';
+
+/**
+ * Backend services the SDK talks to
+ * - gateway: community, user-service and message gateway
+ * - chat: chat API (messages, search, stickers, notifications)
+ * - ai: AI completions and image generation
+ * - upload: file upload service
+ * - platform: miniapp platform API (notifications, project info)
+ */
+export type SwitchXService = 'gateway' | 'chat' | 'ai' | 'upload' | 'platform';
+
+/**
+ * Base URL for every service (no trailing slash)
+ */
+export type SwitchXEndpoints = Record<SwitchXService, string>;
+
+/**
+ * Options accepted by SwitchXCore / SwitchXServer constructors
+ */
+export interface SwitchXClientOptions {
+  /**
+   * Community used when a method's communityId argument is omitted
+   */
+  defaultCommunityId?: string;
+  /**
+   * Named endpoint profile
+   * Default: 'production'
+   */
+  environment?: SwitchXEnvironment;
+  /**
+   * Per-service base URL overrides, applied on top of the environment profile
+   * Example: { chat: 'http://localhost:4000' }
+   */
+  endpoints?: Partial<SwitchXEndpoints>;
+  /**
+   * Retry policy for reads (and mutations that opt in), or false to disable retries
+   * Default: 3 attempts with jittered exponential backoff
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Default timeout per attempt in milliseconds, 0 disables it
+   * Uploads use at least 60000
+   * Default: 30000
+   */
+  timeout?: number;
+  /**
+   * fetch implementation used for every request (test doubles, undici, instrumented fetch)
+   * Default: global fetch
+   */
+  fetch?: typeof fetch;
+  /**
+   * Middleware applied to every request, in order (more can be added with client.use())
+   */
+  middleware?: SwitchXMiddleware[];
+  /**
+   * Client-side rate limits per service (unset services are not limited)
+   * Example: { chat: { requestsPerSecond: 5, maxConcurrent: 4 } }
+   */
+  rateLimit?: Partial<Record<SwitchXService, RateLimitOptions>>;
+  /**
+   * Cache community, channel, group, member and user reads
+   * Pass true for in-memory caching with default TTLs
+   * Default: disabled
+   */
+  cache?: boolean | CacheOptions;
+  /**
+   * Called when a request fails with 401 (concurrent failures share one call)
+   * Return a fresh token to replay the request once, or nothing to rethrow the error
+   */
+  onUnauthorized?: UnauthorizedHandler;
+  /**
+   * How responses that don't match the expected shape are handled
+   * - strict: throw SwitchXDecodeError naming the endpoint and field
+   * - lenient: log the problem and fall back to defaults
+   * Default: 'strict'
+   */
+  validation?: 'strict' | 'lenient';
+}
+
+/**
+ * Token refresh hook for expired tokens
+ */
+export type UnauthorizedHandler = (
+  error: SwitchXAuthError
+) => string | null | undefined | void | Promise<string | null | undefined | void>;
+
+/**
+ * Retry policy for transient failures (network errors, 408/429/5xx)
+ */
+export interface RetryOptions {
+  /**
+   * Total attempts including the first one
+   * Default: 3
+   */
+  attempts?: number;
+  /**
+   * Base delay for exponential backoff, in milliseconds
+   * Default: 300
+   */
+  baseDelay?: number;
+  /**
+   * Maximum delay between attempts, in milliseconds
+   * A Retry-After longer than this stops retrying
+   * Default: 10000
+   */
+  maxDelay?: number;
+  /**
+   * HTTP statuses that trigger a retry
+   * Default: [408, 429, 500, 502, 503, 504]
+   */
+  retryOn?: number[];
+}
+
+/**
+ * Read results that can be cached
+ */
+export type SwitchXCacheResource = 'community' | 'channels' | 'groups' | 'members' | 'user';
+
+/**
+ * Stored cache value with its expiry time (epoch ms)
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Pluggable cache backend (methods may be sync or async)
+ */
+export interface SwitchXCacheStorage {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  /** All keys currently stored (used to clear by resource) */
+  keys(): string[] | Promise<string[]>;
+}
+
+/**
+ * Response cache settings
+ */
+export interface CacheOptions {
+  /**
+   * Where entries are kept
+   * Default: 'memory'
+   */
+  storage?: 'memory' | 'localStorage' | SwitchXCacheStorage;
+  /**
+   * Time to live per resource, in milliseconds (0 disables caching for that resource)
+   * Default: community/user 5 minutes, channels/groups/members 1 minute
+   */
+  ttl?: Partial<Record<SwitchXCacheResource, number>>;
+  /**
+   * Key prefix, so several clients can share one storage
+   * Default: 'switchx:'
+   */
+  prefix?: string;
+  /**
+   * Key part that keeps users of one storage apart (e.g. the user ID)
+   * Default: the user ID in the token when it is a JWT, otherwise a hash of the token
+   */
+  scope?: string;
+}
+
+/**
+ * Queue lanes for rate-limited requests
+ */
+export type RequestPriority = 'interactive' | 'bulk';
+
+/**
+ * Token bucket + concurrency limit for one service
+ */
+export interface RateLimitOptions {
+  /**
+   * Sustained request rate (token refill per second)
+   * Default: unlimited
+   */
+  requestsPerSecond?: number;
+  /**
+   * Bucket size - requests allowed in a burst
+   * Default: requestsPerSecond (at least 1)
+   */
+  burst?: number;
+  /**
+   * Maximum requests in flight at once
+   * Default: unlimited
+   */
+  maxConcurrent?: number;
+}
+
+/**
+ * Queue state of one rate-limited service
+ */
+export interface RateLimitMetrics {
+  /** Requests waiting, per lane */
+  queued: Record<RequestPriority, number>;
+  /** Requests currently in flight */
+  active: number;
+  /** Tokens left in the bucket (Infinity when no rate is set) */
+  availableTokens: number;
+}
+
+/**
+ * Per-call options accepted by client methods
+ */
+export interface RequestOptions {
+  /**
+   * Cancels the request (and any pending retries) when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Timeout per attempt in milliseconds, 0 disables it
+   * Default: client timeout
+   */
+  timeout?: number;
+  /**
+   * Retry policy for this call
+   * - true: use the client policy (opt-in for mutations)
+   * - false: never retry
+   * - object: override parts of the client policy
+   * Reads retry by default, mutations do not
+   */
+  retry?: boolean | RetryOptions;
+  /**
+   * Queue lane when the service is rate limited
+   * Interactive requests are always dequeued before bulk ones
+   * Default: 'interactive'
+   */
+  priority?: RequestPriority;
+  /**
+   * Set to false to skip the cached value (the fresh result is still cached)
+   * Only applies to cached reads when the client has caching enabled
+   * Default: true
+   */
+  cache?: boolean;
+  /**
+   * Share the network call with identical GET requests already in flight
+   * The first caller's timeout, retry and priority settings apply to the shared call
+   * Default: true
+   */
+  dedupe?: boolean;
+}
+
+/**
+ * Outgoing request as seen by middleware
+ * Middleware may mutate it or pass a modified copy to next()
+ */
+export interface SwitchXRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  /** Service the URL belongs to (undefined for foreign URLs) */
+  service?: SwitchXService;
+  /** Human readable action, e.g. "Failed to create channel" */
+  action: string;
+  /** 1-based attempt number (retries pass through middleware again) */
+  attempt: number;
+  /** Aborts on caller cancellation or timeout */
+  signal: AbortSignal;
+}
+
+/**
+ * Calls the rest of the middleware chain (and finally fetch)
+ */
+export type SwitchXNext = (request: SwitchXRequest) => Promise<Response>;
+
+/**
+ * Request/response middleware
+ * Call next(request) to continue, return a Response to short-circuit,
+ * or transform the Response returned by next()
+ *
+ * @example
+ * client.use(async (request, next) => {
+ *   request.headers['X-Trace-Id'] = crypto.randomUUID();
+ *   const response = await next(request);
+ *   console.log(request.method, request.url, response.status);
+ *   return response;
+ * });
+ */
+export type SwitchXMiddleware = (request: SwitchXRequest, next: SwitchXNext) => Promise<Response>;
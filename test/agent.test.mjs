@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore } from '../dist/core/index.mjs';
+
+const toolCall = (id) => ({
+  choices: [{
+    message: {
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ id, type: 'function', function: { name: 'lookup', arguments: '{"query":"x"}' } }]
+    },
+    finish_reason: 'tool_calls'
+  }]
+});
+
+const lookup = {
+  name: 'lookup',
+  description: 'Look something up',
+  parameters: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] },
+  execute: ({ query }) => ({ found: query })
+};
+
+// Model that asks for a tool on every turn
+function toolHungryClient() {
+  let turn = 0;
+  return new SwitchXCore('token', {
+    retry: false,
+    fetch: async () => Response.json(toolCall(`call_${++turn}`))
+  });
+}
+
+test('max_steps run answers every tool call, including the unrun ones', async () => {
+  let executed = 0;
+  const agent = toolHungryClient().agent({
+    maxSteps: 2,
+    tools: [{ ...lookup, execute: (args) => { executed++; return lookup.execute(args); } }]
+  });
+
+  const { stopReason, steps, messages } = await agent.run('hi');
+
+  assert.equal(stopReason, 'max_steps');
+  assert.equal(executed, 1);
+  assert.deepEqual(messages.map((message) => message.role), ['user', 'assistant', 'tool', 'assistant', 'tool']);
+
+  // Every tool_call id is answered by a tool message right after its assistant message
+  for (let index = 0; index < messages.length; index++) {
+    for (const call of messages[index].tool_calls ?? []) {
+      assert.equal(messages[index + 1]?.role, 'tool');
+      assert.equal(messages[index + 1].tool_call_id, call.id);
+    }
+  }
+
+  const last = steps[steps.length - 1];
+  assert.equal(last.toolResults.length, 1);
+  assert.match(last.toolResults[0].error, /step budget/);
+  assert.match(messages[messages.length - 1].content, /step budget/);
+});
+
+test('a max_steps transcript can be passed to the next run', async () => {
+  const bodies = [];
+  const client = new SwitchXCore('token', {
+    retry: false,
+    fetch: async (_url, init) => {
+      bodies.push(JSON.parse(init.body));
+      return Response.json(bodies.length === 1
+        ? toolCall('call_1')
+        : { choices: [{ message: { role: 'assistant', content: 'done' }, finish_reason: 'stop' }] });
+    }
+  });
+  const agent = client.agent({ maxSteps: 1, tools: [lookup] });
+
+  const first = await agent.run('hi');
+  const second = await agent.run([...first.messages, { role: 'user', content: 'go on' }]);
+
+  assert.equal(second.stopReason, 'answer');
+  assert.equal(second.text, 'done');
+  assert.deepEqual(bodies[1].messages.map((message) => message.role), ['user', 'assistant', 'tool', 'user']);
+});
@@ -0,0 +1,165 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXValidationError, AI_MODELS } from '../dist/core/index.mjs';
+
+function recorder(payload) {
+  const requests = [];
+  const fetch = async (_url, init) => {
+    requests.push(JSON.parse(init.body));
+    return typeof payload === 'function' ? payload() : Response.json(payload);
+  };
+  return { fetch, requests };
+}
+
+const ask = [{ role: 'user', content: 'hi' }];
+
+test('OpenAI-style completions are normalized', async () => {
+  const payload = {
+    choices: [{ message: { role: 'assistant', content: 'Hello!', reasoning_content: 'greet back' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 3, completion_tokens: 5, completion_tokens_details: { reasoning_tokens: 2 } }
+  };
+  const client = new SwitchXCore('token', { fetch: recorder(payload).fetch });
+
+  assert.deepEqual(await client.chatWithAI(ask), {
+    text: 'Hello!',
+    role: 'assistant',
+    thinking: 'greet back',
+    finishReason: 'stop',
+    usage: { promptTokens: 3, completionTokens: 5, totalTokens: 8, thinkingTokens: 2 },
+    toolCalls: [],
+    raw: payload
+  });
+});
+
+test('Gemini-style candidates are normalized', async () => {
+  const payload = {
+    candidates: [{
+      content: { role: 'model', parts: [{ text: 'Let me think', thought: true }, { text: 'Hel' }, { text: 'lo' }] },
+      finishReason: 'STOP'
+    }],
+    usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 9, thoughtsTokenCount: 3 }
+  };
+  const client = new SwitchXCore('token', { fetch: recorder(payload).fetch });
+
+  const response = await client.chatWithAI(ask);
+
+  assert.equal(response.text, 'Hello');
+  assert.equal(response.role, 'assistant');
+  assert.equal(response.thinking, 'Let me think');
+  assert.equal(response.finishReason, 'STOP');
+  assert.deepEqual(response.usage, { promptTokens: 4, completionTokens: 2, totalTokens: 9, thinkingTokens: 3 });
+});
+
+test('bare text payloads get defaults', async () => {
+  const client = new SwitchXCore('token', { fetch: recorder({ text: 'plain' }).fetch });
+
+  const response = await client.chatWithAI(ask);
+
+  assert.equal(response.text, 'plain');
+  assert.equal(response.role, 'assistant');
+  assert.equal(response.finishReason, null);
+  assert.equal(response.usage, null);
+});
+
+test('explicit zero options are sent instead of the defaults', async () => {
+  const { fetch, requests } = recorder({ text: '' });
+  const client = new SwitchXCore('token', { fetch });
+
+  await client.chatWithAI(ask, { temperature: 0, thinking_budget: 0 });
+  await client.chatWithAI(ask);
+
+  assert.equal(requests[0].temperature, 0);
+  assert.equal(requests[0].thinking_budget, 0);
+  assert.equal(requests[1].temperature, 0.7);
+  assert.equal(requests[1].thinking_budget, 250);
+  assert.equal(requests[1].model, 'gemini-2.5-flash');
+});
+
+test('out-of-range chat options throw before sending', async () => {
+  const { fetch, requests } = recorder({ text: '' });
+  const client = new SwitchXCore('token', { fetch });
+
+  for (const options of [{ temperature: 3 }, { temperature: NaN }, { max_tokens: 0 }, { max_tokens: 1.5 }, { thinking_budget: -1 }]) {
+    await assert.rejects(client.chatWithAI(ask, options), SwitchXValidationError);
+  }
+  assert.throws(() => client.streamChatWithAI(ask, { temperature: -1 }), /temperature must be between 0 and 2, got -1/);
+  assert.equal(requests.length, 0);
+});
+
+test('unknown models are sent with a single warning', async (t) => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  const { fetch, requests } = recorder({ text: '' });
+  const client = new SwitchXCore('token', { fetch });
+
+  await client.chatWithAI(ask, { model: 'gemini-9-ultra' });
+  await client.chatWithAI(ask, { model: 'gemini-9-ultra' });
+  await client.chatWithAI(ask, { model: AI_MODELS[1] });
+
+  assert.equal(requests[0].model, 'gemini-9-ultra');
+  assert.equal(warn.mock.callCount(), 1);
+  assert.match(warn.mock.calls[0].arguments[0], /Unknown AI model "gemini-9-ultra"/);
+});
+
+test('image payloads in every supported shape are normalized', async () => {
+  const shapes = [
+    { images: [{ data: 'AAA', mimeType: 'image/jpeg' }], text: 'caption' },
+    { data: [{ b64_json: 'AAA' }] },
+    {
+      candidates: [{
+        content: {
+          parts: [
+            { text: 'draft', thought: true },
+            { text: 'caption' },
+            { inlineData: { data: 'AAA', mimeType: 'image/webp' } }
+          ]
+        }
+      }]
+    }
+  ];
+  const expected = [
+    { images: [{ data: 'AAA', mimeType: 'image/jpeg' }], text: 'caption' },
+    { images: [{ data: 'AAA', mimeType: 'image/png' }], text: '' },
+    { images: [{ data: 'AAA', mimeType: 'image/webp' }], text: 'caption' }
+  ];
+
+  for (const [index, payload] of shapes.entries()) {
+    const client = new SwitchXCore('token', { fetch: recorder(payload).fetch });
+    const { raw, ...response } = await client.generateImage('a lighthouse');
+    assert.deepEqual(response, expected[index]);
+    assert.deepEqual(raw, payload);
+  }
+});
+
+test('invalid image requests throw before sending', async () => {
+  const { fetch, requests } = recorder({ images: [] });
+  const client = new SwitchXCore('token', { fetch });
+
+  await assert.rejects(client.generateImage('  '), /Image prompt is required/);
+  await assert.rejects(client.generateImage('x', { response_modalities: [] }), SwitchXValidationError);
+  await assert.rejects(client.generateImage('x', { response_modalities: ['VIDEO'] }), SwitchXValidationError);
+  await assert.rejects(client.generateImage('x', { images_base64: [{ data: '' }] }), /images_base64\[0\]\.data is required/);
+  assert.equal(requests.length, 0);
+});
+
+test('a finished stream resolves to the same response shape', async () => {
+  const events = [
+    { choices: [{ delta: { role: 'assistant', content: 'Hi' } }] },
+    { choices: [{ delta: { content: ' there' }, finish_reason: 'stop' }], usage: { prompt_tokens: 1, completion_tokens: 2 } }
+  ];
+  const client = new SwitchXCore('token', {
+    fetch: recorder(() => new Response(
+      `${events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('')}data: [DONE]\n\n`,
+      { headers: { 'Content-Type': 'text/event-stream' } }
+    )).fetch
+  });
+
+  assert.deepEqual(await client.streamChatWithAI(ask).final(), {
+    text: 'Hi there',
+    role: 'assistant',
+    thinking: '',
+    finishReason: 'stop',
+    usage: { promptTokens: 1, completionTokens: 2, totalTokens: 3 },
+    toolCalls: [],
+    raw: events
+  });
+});
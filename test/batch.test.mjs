@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXNotFoundError, SwitchXValidationError } from '../dist/core/index.mjs';
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+// Deletes answer 404 for IDs starting with "missing", and track how many run at once
+function recorder() {
+  const deleted = [];
+  let active = 0;
+  let peak = 0;
+  const fetch = async (url) => {
+    const id = String(url).split('/').pop();
+    active++;
+    peak = Math.max(peak, active);
+    await tick();
+    active--;
+    deleted.push(id);
+    return id.startsWith('missing') ? new Response('', { status: 404 }) : new Response(null, { status: 204 });
+  };
+  return { fetch, deleted, peak: () => peak };
+}
+
+test('every item is invoked and failures are reported in input order', async () => {
+  const { fetch, deleted } = recorder();
+  const client = new SwitchXCore('token', { fetch });
+  const ids = ['m1', 'missing1', 'm2', 'm3', 'missing2', 'm4'];
+
+  const report = await client.deleteMessages(ids);
+
+  assert.deepEqual([...deleted].sort(), [...ids].sort());
+  assert.deepEqual(report.succeeded, ['m1', 'm2', 'm3', 'm4']);
+  assert.deepEqual(report.failed.map(({ item }) => item), ['missing1', 'missing2']);
+  assert.ok(report.failed.every(({ error }) => error instanceof SwitchXNotFoundError));
+});
+
+test('concurrency caps the requests in flight', async () => {
+  const { fetch, deleted, peak } = recorder();
+  const client = new SwitchXCore('token', { fetch });
+
+  await client.deleteMessages(Array.from({ length: 10 }, (_, i) => `m${i}`), { concurrency: 3 });
+
+  assert.equal(deleted.length, 10);
+  assert.equal(peak(), 3);
+});
+
+test('invalid concurrency throws before any item runs', async () => {
+  const { fetch, deleted } = recorder();
+  const client = new SwitchXCore('token', { fetch });
+
+  for (const concurrency of [0, -1, 1.5, NaN, Infinity]) {
+    await assert.rejects(
+      client.deleteMessages(['m1', 'm2'], { concurrency }),
+      (error) => error instanceof SwitchXValidationError && /concurrency must be a whole number of at least 1/.test(error.message)
+    );
+  }
+  assert.equal(deleted.length, 0);
+});
+
+test('items not started when the signal aborts are reported as failed', async () => {
+  const controller = new AbortController();
+  const started = [];
+  const client = new SwitchXCore('token', {
+    fetch: async (url) => {
+      started.push(String(url));
+      controller.abort(new Error('stop'));
+      return new Response(null, { status: 204 });
+    }
+  });
+
+  const report = await client.installStickerPacks(['p1', 'p2', 'p3'], 'com1', { concurrency: 1 }, { signal: controller.signal });
+
+  assert.equal(started.length, 1);
+  assert.deepEqual(report.succeeded, ['p1']);
+  assert.deepEqual(report.failed.map(({ item, error }) => [item, error.message]), [['p2', 'stop'], ['p3', 'stop']]);
+});
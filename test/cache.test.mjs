@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, MemoryCacheStorage } from '../dist/core/index.mjs';
+
+const jwt = (claims) => `e30.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.sig`;
+
+// Counts requests per path and answers with channels or users
+function counter() {
+  const calls = [];
+  const fetch = async (url, init) => {
+    calls.push(`${init.method} ${new URL(url).pathname}`);
+    if (String(url).includes('/channel/all')) return Response.json({ result: [{ channelId: `c${calls.length}`, channelName: 'general' }] });
+    if (String(url).includes('/channel')) return Response.json({ result: { channelId: 'new' } });
+    return Response.json({ id: 'u1', name: `call ${calls.length}` });
+  };
+  return { fetch, calls };
+}
+
+test('reads are served from the cache until they expire', async () => {
+  const { fetch, calls } = counter();
+  const client = new SwitchXCore('token', { fetch, cache: { ttl: { user: 40 } } });
+
+  const first = await client.getUser('u1');
+  const second = await client.getUser('u1');
+  assert.deepEqual(second, first);
+  assert.equal(calls.length, 1);
+
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  await client.getUser('u1');
+  assert.equal(calls.length, 2);
+});
+
+test('caching is off unless enabled', async () => {
+  const { fetch, calls } = counter();
+  const client = new SwitchXCore('token', { fetch });
+
+  await client.getUser('u1');
+  await client.getUser('u1');
+
+  assert.equal(calls.length, 2);
+});
+
+test('cache: false skips the cache for one call', async () => {
+  const { fetch, calls } = counter();
+  const client = new SwitchXCore('token', { fetch, cache: true });
+
+  await client.getUser('u1');
+  await client.getUser('u1', { cache: false });
+
+  assert.equal(calls.length, 2);
+});
+
+test('mutations invalidate the entries they affect', async () => {
+  const { fetch, calls } = counter();
+  const client = new SwitchXCore('token', { fetch, cache: true });
+
+  await client.getChannels('com1');
+  await client.getChannels('com1');
+  await client.createChannel('news', 'com1');
+  await client.getChannels('com1');
+
+  assert.deepEqual(calls, [
+    'GET /swagger/community/v1/community/channel/all',
+    'POST /swagger/community/v1/community/channel',
+    'GET /swagger/community/v1/community/channel/all'
+  ]);
+});
+
+test('invalidateCache drops one entry, one resource or everything', async () => {
+  const { fetch, calls } = counter();
+  const client = new SwitchXCore('token', { fetch, cache: true });
+  const load = () => Promise.all([client.getUser('u1'), client.getUser('u2'), client.getChannels('com1')]);
+
+  await load();
+  await client.invalidateCache('user', 'u1');
+  await load();
+  assert.equal(calls.length, 4);
+
+  await client.invalidateCache('user');
+  await load();
+  assert.equal(calls.length, 6);
+
+  await client.invalidateCache();
+  await load();
+  assert.equal(calls.length, 9);
+});
+
+test('users sharing a storage never read each other\'s entries', async () => {
+  const storage = new MemoryCacheStorage();
+  const alice = counter();
+  const bob = counter();
+  const aliceClient = new SwitchXCore(jwt({ sub: 'alice' }), { fetch: alice.fetch, cache: { storage } });
+  const bobClient = new SwitchXCore('opaque-bob-token', { fetch: bob.fetch, cache: { storage } });
+
+  await aliceClient.getUser('u1');
+  await bobClient.getUser('u1');
+
+  assert.equal(alice.calls.length, 1);
+  assert.equal(bob.calls.length, 1);
+  const keys = storage.keys();
+  assert.ok(keys.includes('switchx:ualice:user:u1'));
+  assert.ok(keys.some((key) => /^switchx:t[0-9a-z]+:user:u1$/.test(key)));
+  assert.ok(keys.every((key) => !key.includes('opaque-bob-token')));
+});
+
+test('a refreshed JWT for the same user keeps its entries', async () => {
+  const storage = new MemoryCacheStorage();
+  const { fetch, calls } = counter();
+
+  await new SwitchXCore(jwt({ sub: 'alice', iat: 1 }), { fetch, cache: { storage } }).getUser('u1');
+  await new SwitchXCore(jwt({ sub: 'alice', iat: 2 }), { fetch, cache: { storage } }).getUser('u1');
+
+  assert.equal(calls.length, 1);
+});
+
+test('an explicit scope and prefix name the keys', async () => {
+  const storage = new MemoryCacheStorage();
+  const { fetch } = counter();
+
+  await new SwitchXCore('token', { fetch, cache: { storage, scope: 'me', prefix: 'app:' } }).getUser('u1');
+
+  assert.deepEqual(storage.keys(), ['app:me:user:u1']);
+});
@@ -0,0 +1,211 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXServer } from '../dist/server/index.mjs';
+
+// Records replies and other requests; `admins` answer true to the admin check
+function recorder({ admins = [] } = {}) {
+  const replies = [];
+  const requests = [];
+  const fetch = async (url, init) => {
+    const body = init.body ? JSON.parse(init.body) : undefined;
+    if (String(url).includes('/message/create')) {
+      replies.push(body.message);
+      return Response.json({ id: `r${replies.length}` });
+    }
+    requests.push({ url: new URL(url), method: init.method, body });
+    if (String(url).includes('/community/user?')) {
+      return Response.json({ result: { admin: admins.includes(new URL(url).searchParams.get('userId')) } });
+    }
+    return Response.json({ result: {} });
+  };
+  return { fetch, replies, requests };
+}
+
+function router(options = {}, fetchOptions) {
+  const { fetch, replies, requests } = recorder(fetchOptions);
+  const client = new SwitchXServer('bot-token', { fetch, retry: false });
+  return { router: client.commands({ communityId: 'com1', ...options }), replies, requests };
+}
+
+const message = (text, userId = 'u1') => ({ text, userId, channelId: 'c1' });
+
+test('commands are routed by name and handler strings become replies', async () => {
+  const { router: commands, replies } = router();
+  const seen = [];
+  commands.command({
+    name: 'Ping',
+    description: 'Check the bot',
+    handler: ({ command, communityId }) => {
+      seen.push([command.userId, communityId]);
+      return 'pong';
+    }
+  });
+
+  assert.equal(await commands.handle(message('/ping')), 'handled');
+  assert.equal(await commands.handle(message('  /PING  ')), 'handled');
+  assert.equal(await commands.handle(message('ping')), 'ignored');
+  assert.equal(await commands.handle(message('/')), 'ignored');
+  assert.deepEqual(replies, ['pong', 'pong']);
+  assert.deepEqual(seen, [['u1', 'com1'], ['u1', 'com1']]);
+});
+
+test('arguments are split, quoted, converted and gathered by rest', async () => {
+  const { router: commands } = router();
+  const calls = [];
+  commands.command({
+    name: 'remind',
+    description: 'Set a reminder',
+    args: [
+      { name: 'minutes', type: 'number' },
+      { name: 'loud', type: 'boolean', required: false },
+      { name: 'text', rest: true, required: false }
+    ],
+    handler: ({ args }) => { calls.push(args); }
+  });
+  commands.command({
+    name: 'say',
+    description: 'Say something',
+    args: [{ name: 'who' }, { name: 'what' }],
+    handler: ({ args }) => { calls.push(args); }
+  });
+
+  await commands.handle(message('/remind 10 yes stand-up  in "room 2"'));
+  await commands.handle(message('/remind 1.5'));
+  await commands.handle(message('/say "Ada Lovelace" "hello \\"world\\""'));
+
+  assert.deepEqual(calls, [
+    { minutes: 10, loud: true, text: 'stand-up  in "room 2"' },
+    { minutes: 1.5 },
+    { who: 'Ada Lovelace', what: 'hello "world"' }
+  ]);
+});
+
+test('bad arguments are answered with the usage', async () => {
+  const { router: commands, replies } = router();
+  let ran = false;
+  commands.command({
+    name: 'roll',
+    description: 'Roll a die',
+    args: [{ name: 'sides', type: 'number' }, { name: 'public', type: 'boolean', required: false }],
+    handler: () => { ran = true; }
+  });
+
+  assert.equal(await commands.handle(message('/roll')), 'invalid');
+  assert.equal(await commands.handle(message('/roll six')), 'invalid');
+  assert.equal(await commands.handle(message('/roll 6 maybe')), 'invalid');
+  assert.equal(await commands.handle(message('/roll 6 yes extra')), 'invalid');
+
+  assert.equal(ran, false);
+  assert.deepEqual(replies, [
+    'Missing sides\nUsage: /roll <sides> [public]',
+    'sides should be a number, got "six"\nUsage: /roll <sides> [public]',
+    'public should be yes or no, got "maybe"\nUsage: /roll <sides> [public]',
+    'Too many arguments for /roll\nUsage: /roll <sides> [public]'
+  ]);
+});
+
+test('unknown commands are silent unless replyToUnknown is set', async () => {
+  const quiet = router();
+  assert.equal(await quiet.router.handle(message('/nope')), 'unknown');
+  assert.deepEqual(quiet.replies, []);
+
+  const chatty = router({ replyToUnknown: true });
+  assert.equal(await chatty.router.handle(message('/nope')), 'unknown');
+  assert.deepEqual(chatty.replies, ['Unknown command /nope. Type /help for a list of commands.']);
+
+  const noHelp = router({ replyToUnknown: true, help: false });
+  await noHelp.router.handle(message('/nope'));
+  assert.deepEqual(noHelp.replies, ['Unknown command /nope.']);
+});
+
+test('admin-only commands check the author', async () => {
+  const { router: commands, replies } = router({}, { admins: ['boss'] });
+  commands.command({ name: 'purge', description: 'Delete messages', adminOnly: true, handler: () => 'purged' });
+
+  assert.equal(await commands.handle(message('/purge', 'u1')), 'forbidden');
+  assert.equal(await commands.handle(message('/purge', 'boss')), 'handled');
+  assert.deepEqual(replies, ['Only community admins can use /purge.', 'purged']);
+});
+
+test('handler errors go to onError, then the router, then a generic reply', async (t) => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  const { router: commands, replies } = router({ onError: (error) => `router: ${error.message}` });
+  const fail = () => { throw new Error('boom'); };
+  commands.command({ name: 'a', description: 'a', handler: fail, onError: (error) => `command: ${error.message}` });
+  commands.command({ name: 'b', description: 'b', handler: fail });
+
+  assert.equal(await commands.handle(message('/a')), 'failed');
+  assert.equal(await commands.handle(message('/b')), 'failed');
+
+  const fallback = router();
+  fallback.router.command({ name: 'c', description: 'c', handler: fail });
+  await fallback.router.handle(message('/c'));
+
+  assert.deepEqual(replies, ['command: boom', 'router: boom']);
+  assert.deepEqual(fallback.replies, ['Something went wrong running /c.']);
+  assert.equal(warn.mock.callCount(), 1);
+});
+
+test('help lists commands and shows usage', async () => {
+  const { router: commands, replies } = router({ prefix: '!' });
+  commands.command({
+    name: 'greet',
+    description: 'Say hi',
+    args: [{ name: 'name', description: 'Who to greet', rest: true }],
+    adminOnly: true,
+    handler: () => {}
+  });
+
+  await commands.handle(message('!help'));
+  await commands.handle(message('!help !greet'));
+
+  assert.deepEqual(replies, [
+    'Available commands:\n!help [command] - List commands, or show how to use one\n!greet <name...> - Say hi (admins only)',
+    '!greet <name...> - Say hi\n  name: Who to greet\nAdmins only.'
+  ]);
+});
+
+test('sync sends only the commands list', async () => {
+  const { router: commands, requests } = router();
+  commands.command({
+    name: 'roll',
+    description: 'Roll a die',
+    args: [{ name: 'sides', type: 'number', required: false, description: 'Faces' }],
+    handler: () => {}
+  });
+
+  await commands.sync();
+
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].method, 'PATCH');
+  assert.equal(requests[0].url.pathname, '/swagger/community/v1/community');
+  assert.deepEqual(requests[0].body, {
+    communityId: 'com1',
+    commands: [
+      {
+        name: 'help',
+        description: 'List commands, or show how to use one',
+        usage: '/help [command]',
+        adminOnly: false,
+        args: [{ name: 'command', type: 'string', required: false }]
+      },
+      {
+        name: 'roll',
+        description: 'Roll a die',
+        usage: '/roll [sides]',
+        adminOnly: false,
+        args: [{ name: 'sides', type: 'number', required: false, description: 'Faces' }]
+      }
+    ]
+  });
+});
+
+test('invalid registrations throw', () => {
+  const { router: commands } = router();
+
+  assert.throws(() => commands.command({ name: 'two words', description: '', handler: () => {} }), /Invalid command name/);
+  assert.throws(
+    () => commands.command({ name: 'x', description: '', args: [{ name: 'a', rest: true }, { name: 'b' }], handler: () => {} }),
+    /only the last argument/
+  );
+});
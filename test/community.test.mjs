@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXValidationError } from '../dist/core/index.mjs';
+
+function recorder() {
+  const requests = [];
+  const fetch = async (url, init) => {
+    requests.push({ url: new URL(url), method: init.method, body: init.body && JSON.parse(init.body) });
+    if (url.includes('/community/user?')) return Response.json({ result: { admin: false } });
+    if (url.includes('/message/create')) return Response.json({ id: 'm1' });
+    return Response.json({ result: [] });
+  };
+  return { fetch, requests };
+}
+
+test('the default community fills in an omitted communityId', async () => {
+  const { fetch, requests } = recorder();
+  const client = new SwitchXCore('token', { fetch, defaultCommunityId: 'com1' });
+
+  await client.getChannels();
+  await client.getChannels('com2');
+
+  assert.equal(requests[0].url.searchParams.get('communityId'), 'com1');
+  assert.equal(requests[1].url.searchParams.get('communityId'), 'com2');
+  assert.equal(client.getDefaultCommunityId(), 'com1');
+});
+
+test('a string second argument is the default community', async () => {
+  const { fetch, requests } = recorder();
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = fetch;
+  try {
+    await new SwitchXCore('token', 'com1').getGroups();
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+
+  assert.equal(requests[0].url.searchParams.get('communityId'), 'com1');
+});
+
+test('a missing communityId without a default throws before sending', async () => {
+  const { fetch, requests } = recorder();
+  const client = new SwitchXCore('token', { fetch });
+
+  await assert.rejects(client.getChannels(), (error) =>
+    error instanceof SwitchXValidationError && /defaultCommunityId/.test(error.message));
+  assert.throws(() => client.community(), SwitchXValidationError);
+  assert.equal(requests.length, 0);
+});
+
+test('community() binds the ID for every call', async () => {
+  const { fetch, requests } = recorder();
+  const community = new SwitchXCore('token', { fetch, defaultCommunityId: 'com1' }).community('com9');
+
+  await community.channels.list();
+  await community.channels.send('c1', 'hi');
+  await community.members.isAdmin('u1');
+
+  assert.equal(community.id, 'com9');
+  assert.equal(requests[0].url.searchParams.get('communityId'), 'com9');
+  assert.equal(requests[1].body.communityId, 'com9');
+  assert.equal(requests[1].body.channelId, 'c1');
+  assert.equal(requests[2].url.searchParams.get('communityId'), 'com9');
+});
+
+test('community() without an ID uses the default', () => {
+  const client = new SwitchXCore('token', { defaultCommunityId: 'com1' });
+
+  assert.equal(client.community().id, 'com1');
+});
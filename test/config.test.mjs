@@ -0,0 +1,56 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SWITCHX_ENVIRONMENTS } from '../dist/core/index.mjs';
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+test('production is the default profile', () => {
+  const client = new SwitchXCore('token');
+
+  assert.deepEqual(client.getEndpoints(), SWITCHX_ENVIRONMENTS.production);
+});
+
+test('a named profile selects every service URL', () => {
+  const client = new SwitchXCore('token', { environment: 'staging' });
+
+  assert.deepEqual(client.getEndpoints(), SWITCHX_ENVIRONMENTS.staging);
+});
+
+test('overrides replace single services and lose trailing slashes', () => {
+  const client = new SwitchXCore('token', {
+    environment: 'staging',
+    endpoints: { chat: 'http://localhost:4000//', ai: '' }
+  });
+  const endpoints = client.getEndpoints();
+
+  assert.equal(endpoints.chat, 'http://localhost:4000');
+  assert.equal(endpoints.ai, SWITCHX_ENVIRONMENTS.staging.ai);
+  assert.equal(endpoints.gateway, SWITCHX_ENVIRONMENTS.staging.gateway);
+});
+
+test('an unknown environment throws', () => {
+  assert.throws(() => new SwitchXCore('token', { environment: 'qa' }), /Unknown environment "qa"/);
+});
+
+test('getEndpoints returns a copy', () => {
+  const client = new SwitchXCore('token');
+  client.getEndpoints().chat = 'http://changed';
+
+  assert.equal(client.getEndpoints().chat, SWITCHX_ENVIRONMENTS.production.chat);
+});
+
+test('requests go to the overridden base URL', async () => {
+  const urls = [];
+  globalThis.fetch = async (url) => {
+    urls.push(String(url));
+    return Response.json({ id: 'u1', name: 'Ada' });
+  };
+  const client = new SwitchXCore('token', { endpoints: { chat: 'http://localhost:4000/' } });
+
+  await client.getUser('u1');
+
+  assert.deepEqual(urls, ['http://localhost:4000/user/info?userId=u1']);
+});
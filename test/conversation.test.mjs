@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXValidationError, AIConversation } from '../dist/core/index.mjs';
+
+// Answers every chat request with the next reply and records the prompts
+function recorder(replies) {
+  const prompts = [];
+  const fetch = async (_url, init) => {
+    prompts.push(JSON.parse(init.body).messages);
+    return Response.json({
+      choices: [{ message: { role: 'assistant', content: replies.shift() ?? 'ok' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 2 }
+    });
+  };
+  return { fetch, prompts };
+}
+
+function snapshot(changes = {}) {
+  return {
+    version: 1,
+    system: 'Be brief.',
+    summary: '',
+    messages: [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }],
+    usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 },
+    maxTokens: 1000,
+    strategy: 'trim',
+    ...changes
+  };
+}
+
+test('a session survives a JSON round trip', async () => {
+  const { fetch, prompts } = recorder(['hello', 'again']);
+  const client = new SwitchXCore('token', { fetch });
+  const conversation = client.conversation({ system: 'Be brief.', maxTokens: 1000, chat: { model: 'gemini-2.5-flash' } });
+  await conversation.send('hi');
+
+  const restored = AIConversation.fromJSON(client, JSON.stringify(conversation));
+  assert.deepEqual(restored.toJSON(), conversation.toJSON());
+
+  await restored.send('more');
+  assert.deepEqual(prompts[1].map((message) => message.content), ['Be brief.', 'hi', 'hello', 'more']);
+  assert.deepEqual(restored.usage, { promptTokens: 20, completionTokens: 4, totalTokens: 24 });
+});
+
+test('old turns are trimmed to fit the budget', async () => {
+  const { fetch, prompts } = recorder([]);
+  const client = new SwitchXCore('token', { fetch });
+  const conversation = client.conversation({ maxTokens: 40, summaryTokens: 5 });
+
+  for (const text of ['first '.repeat(10), 'second '.repeat(10), 'third']) await conversation.send(text);
+
+  assert.ok(conversation.tokens <= 40);
+  assert.equal(prompts[2].some((message) => message.content.startsWith('first')), false);
+  assert.equal(prompts[2].at(-1).content, 'third');
+});
+
+test('corrupted snapshots are rejected naming the bad field', () => {
+  const client = new SwitchXCore('token', { fetch: async () => Response.json({}) });
+  const reject = (changes, message) => assert.throws(
+    () => AIConversation.fromJSON(client, snapshot(changes)),
+    (error) => error instanceof SwitchXValidationError && error.message === message
+  );
+
+  reject({ usage: { promptTokens: '10', completionTokens: 2, totalTokens: 12 } },
+    'Invalid conversation snapshot: usage.promptTokens must be a non-negative number, got "10"');
+  reject({ usage: { promptTokens: 10, completionTokens: 2, totalTokens: null } },
+    'Invalid conversation snapshot: usage.totalTokens must be a non-negative number, got null');
+  reject({ usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12, thinkingTokens: -1 } },
+    'Invalid conversation snapshot: usage.thinkingTokens must be a non-negative number, got -1');
+  reject({ usage: undefined }, 'Invalid conversation snapshot: usage must be an object, got undefined');
+  reject({ messages: [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 42 }] },
+    'Invalid conversation snapshot: messages[1].content must be a string, got 42');
+  reject({ messages: [{ content: 'hi' }] },
+    'Invalid conversation snapshot: messages[0].role must be a non-empty string, got undefined');
+  reject({ messages: [{ role: 'assistant', content: '', tool_calls: [{ id: 'c1', type: 'function', function: { name: 'f' } }] }] },
+    'Invalid conversation snapshot: messages[0].tool_calls[0].function.arguments must be a string, got undefined');
+  reject({ messages: 'hi' }, 'Invalid conversation snapshot: messages must be an array, got "hi"');
+  reject({ summary: null }, 'Invalid conversation snapshot: summary must be a string, got null');
+  reject({ system: 7 }, 'Invalid conversation snapshot: system must be a string, got 7');
+  reject({ maxTokens: 0 }, 'Invalid conversation snapshot: maxTokens must be a positive integer, got 0');
+  reject({ strategy: 'drop' }, `Invalid conversation snapshot: strategy must be 'trim' or 'summarize', got "drop"`);
+  reject({ summaryTokens: 1.5 }, 'Invalid conversation snapshot: summaryTokens must be a positive integer, got 1.5');
+  reject({ chat: { temperature: 'warm' } }, 'Invalid conversation snapshot: chat.temperature must be a number, got "warm"');
+  reject({ version: 2 }, 'Unsupported conversation snapshot version: 2');
+});
+
+test('snapshots that are not JSON objects are rejected', () => {
+  const client = new SwitchXCore('token', { fetch: async () => Response.json({}) });
+
+  assert.throws(() => AIConversation.fromJSON(client, '{not json'), /^SwitchXValidationError: Invalid conversation snapshot: /);
+  assert.throws(() => AIConversation.fromJSON(client, '[]'), /snapshot must be an object, got array/);
+  assert.throws(() => AIConversation.fromJSON(client, 'null'), /snapshot must be an object, got null/);
+});
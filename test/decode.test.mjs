@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXDecodeError, SwitchXError } from '../dist/core/index.mjs';
+
+const answering = (body) => async () => Response.json(body);
+
+test('well-formed responses decode and map', async () => {
+  const client = new SwitchXCore('token', {
+    fetch: answering({ result: [{ channelId: 7, channelName: 'general' }, { channelId: 'c8' }] })
+  });
+
+  const channels = await client.getChannels('com1');
+
+  assert.deepEqual(channels, [
+    { id: '7', name: 'general', emoji: '' },
+    { id: 'c8', name: '', emoji: '' }
+  ]);
+});
+
+test('strict mode throws SwitchXDecodeError naming the path', async () => {
+  const client = new SwitchXCore('token', {
+    endpoints: { gateway: 'http://gw.test' },
+    fetch: answering({ result: [{ channelId: 'c1' }, { channelId: 'c2', channelName: 42 }] })
+  });
+
+  const error = await client.getChannels('com1').catch((error) => error);
+
+  assert.ok(error instanceof SwitchXDecodeError);
+  assert.ok(error instanceof SwitchXError);
+  assert.deepEqual(error.issues, [{ path: 'result[1].channelName', expected: 'string', received: 'number' }]);
+  assert.match(error.message, /^Failed to get channels: unexpected response from GET http:\/\/gw\.test\/swagger\/community\/v1\/community\/channel\/all - /);
+  assert.doesNotMatch(error.message, /communityId=/);
+  assert.deepEqual(error.body, { result: [{ channelId: 'c1' }, { channelId: 'c2', channelName: 42 }] });
+});
+
+test('a missing required object is reported at its own path', async () => {
+  const client = new SwitchXCore('token', { fetch: answering({ error: 'gone' }) });
+
+  const error = await client.getCommunity('com1').catch((error) => error);
+
+  assert.deepEqual(error.issues, [{ path: 'result', expected: 'object', received: 'undefined' }]);
+});
+
+test('lenient mode warns once with every issue and fills defaults', async (t) => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  const client = new SwitchXCore('token', {
+    validation: 'lenient',
+    fetch: answering({ id: 'u1', name: 5, bot: 'yes' })
+  });
+
+  const user = await client.getUser('u1');
+
+  assert.deepEqual(user, { userId: 'u1', name: '', imageUrl: '', username: '', bio: '', bot: false });
+  assert.equal(warn.mock.callCount(), 1);
+  const message = warn.mock.calls[0].arguments[0];
+  assert.match(message, /^\[SwitchX\] Failed to get user: unexpected response/);
+  assert.match(message, /name should be string, got number; bot should be boolean, got string/);
+});
+
+test('lenient mode fills a missing object with its defaults', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const client = new SwitchXCore('token', { validation: 'lenient', fetch: answering({}) });
+
+  const community = await client.getCommunity('com1');
+
+  assert.equal(community.id, '');
+  assert.equal(community.memberCount, 0);
+});
+
+test('ids may be numbers and null optionals take their default', async () => {
+  const client = new SwitchXCore('token', { fetch: answering({ id: 12, name: null, bot: true }) });
+
+  const user = await client.getUser('12');
+
+  assert.equal(user.userId, '12');
+  assert.equal(user.name, '');
+  assert.equal(user.bot, true);
+});
@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore } from '../dist/core/index.mjs';
+
+// fetch that holds every request until release() and records its signal
+function held() {
+  const requests = [];
+  const fetch = (url, init) => new Promise((resolve, reject) => {
+    const request = { url: String(url), method: init.method, signal: init.signal };
+    request.release = () => resolve(Response.json({ id: 'u1', name: 'Ada', result: { channelId: 'c1' } }));
+    init.signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    requests.push(request);
+  });
+  return { fetch, requests };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test('identical concurrent GETs share one call and one result', async () => {
+  const { fetch, requests } = held();
+  const client = new SwitchXCore('token', { fetch });
+
+  const calls = [client.getUser('u1'), client.getUser('u1'), client.getUser('u2')];
+  await tick();
+  assert.equal(requests.length, 2);
+
+  requests.forEach((request) => request.release());
+  const [first, second] = await Promise.all(calls);
+  assert.deepEqual(first, second);
+});
+
+test('a finished call is not reused', async () => {
+  const { fetch, requests } = held();
+  const client = new SwitchXCore('token', { fetch });
+
+  const first = client.getUser('u1');
+  await tick();
+  requests[0].release();
+  await first;
+
+  const second = client.getUser('u1');
+  await tick();
+  assert.equal(requests.length, 2);
+  requests[1].release();
+  await second;
+});
+
+test('dedupe: false and mutations always send', async () => {
+  const { fetch, requests } = held();
+  const client = new SwitchXCore('token', { fetch });
+
+  const calls = [
+    client.getUser('u1'),
+    client.getUser('u1', { dedupe: false }),
+    client.createChannel('news', 'com1'),
+    client.createChannel('news', 'com1')
+  ];
+  await tick();
+  assert.equal(requests.length, 4);
+
+  requests.forEach((request) => request.release());
+  await Promise.all(calls);
+});
+
+test('one caller aborting leaves the shared call running for the others', async () => {
+  const { fetch, requests } = held();
+  const client = new SwitchXCore('token', { fetch });
+  const controller = new AbortController();
+
+  const aborted = client.getUser('u1', { signal: controller.signal });
+  const kept = client.getUser('u1');
+  await tick();
+  controller.abort();
+
+  await assert.rejects(aborted, { name: 'AbortError' });
+  assert.equal(requests[0].signal.aborted, false);
+  requests[0].release();
+  assert.equal((await kept).name, 'Ada');
+});
+
+test('the shared call is cancelled once every caller has aborted', async () => {
+  const { fetch, requests } = held();
+  const client = new SwitchXCore('token', { fetch });
+  const first = new AbortController();
+  const second = new AbortController();
+
+  const calls = [
+    client.getUser('u1', { signal: first.signal }),
+    client.getUser('u1', { signal: second.signal })
+  ];
+  await tick();
+  first.abort();
+  second.abort();
+
+  await Promise.all(calls.map((call) => assert.rejects(call, { name: 'AbortError' })));
+  assert.equal(requests[0].signal.aborted, true);
+
+  // The next caller starts a fresh call
+  const next = client.getUser('u1');
+  await tick();
+  assert.equal(requests.length, 2);
+  requests[1].release();
+  await next;
+});
@@ -0,0 +1,101 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SwitchXCore,
+  SwitchXError,
+  SwitchXAuthError,
+  SwitchXNotFoundError,
+  SwitchXRateLimitError,
+  SwitchXValidationError,
+  SwitchXNetworkError
+} from '../dist/core/index.mjs';
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+function respond(status, body, headers = {}) {
+  globalThis.fetch = async () => new Response(typeof body === 'string' ? body : JSON.stringify(body), { status, headers });
+}
+
+for (const [status, ErrorClass] of [
+  [400, SwitchXValidationError],
+  [401, SwitchXAuthError],
+  [403, SwitchXAuthError],
+  [404, SwitchXNotFoundError],
+  [409, SwitchXValidationError],
+  [422, SwitchXValidationError],
+  [429, SwitchXRateLimitError],
+  [500, SwitchXError]
+]) {
+  test(`status ${status} throws ${ErrorClass.name}`, async () => {
+    respond(status, { message: 'nope' });
+    const error = await new SwitchXCore('token').getUser('u1').catch((error) => error);
+
+    assert.ok(error instanceof ErrorClass);
+    assert.ok(error instanceof SwitchXError);
+    assert.equal(error.name, ErrorClass.name);
+    assert.equal(error.status, status);
+  });
+}
+
+test('errors carry the request, server message, request ID and body', async () => {
+  respond(404, { message: 'Channel not found', requestId: 'req-1' });
+  const client = new SwitchXCore('token', { endpoints: { chat: 'http://chat.test' } });
+
+  const error = await client.getUser('u1').catch((error) => error);
+
+  assert.equal(error.method, 'GET');
+  assert.equal(error.url, 'http://chat.test/user/info?userId=u1');
+  assert.equal(error.serverMessage, 'Channel not found');
+  assert.equal(error.requestId, 'req-1');
+  assert.deepEqual(error.body, { message: 'Channel not found', requestId: 'req-1' });
+  assert.match(error.message, /: 404 - Channel not found$/);
+});
+
+test('a request ID header wins over the body', async () => {
+  respond(500, { requestId: 'from-body' }, { 'x-request-id': 'from-header' });
+
+  const error = await new SwitchXCore('token').getUser('u1').catch((error) => error);
+
+  assert.equal(error.requestId, 'from-header');
+});
+
+test('plain text bodies become the server message', async () => {
+  respond(502, 'Bad gateway\n');
+
+  const error = await new SwitchXCore('token').getUser('u1').catch((error) => error);
+
+  assert.equal(error.body, 'Bad gateway\n');
+  assert.equal(error.serverMessage, 'Bad gateway');
+});
+
+test('429 exposes Retry-After in milliseconds', async () => {
+  respond(429, '', { 'retry-after': '2' });
+
+  const error = await new SwitchXCore('token').getUser('u1').catch((error) => error);
+
+  assert.ok(error instanceof SwitchXRateLimitError);
+  assert.equal(error.retryAfter, 2000);
+});
+
+test('fetch failures throw SwitchXNetworkError with the cause', async () => {
+  const cause = new TypeError('fetch failed');
+  globalThis.fetch = async () => { throw cause; };
+
+  const error = await new SwitchXCore('token').getUser('u1').catch((error) => error);
+
+  assert.ok(error instanceof SwitchXNetworkError);
+  assert.equal(error.status, undefined);
+  assert.equal(error.cause, cause);
+});
+
+test('invalid arguments throw SwitchXValidationError before sending', async () => {
+  let sent = false;
+  globalThis.fetch = async () => { sent = true; return new Response('{}'); };
+
+  await assert.rejects(new SwitchXCore('token').getChannels(''), SwitchXValidationError);
+  assert.throws(() => new SwitchXCore(''), SwitchXValidationError);
+  assert.equal(sent, false);
+});
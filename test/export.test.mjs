@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXValidationError } from '../dist/core/index.mjs';
+
+const BASE = Date.parse('2026-01-01T00:00:00Z');
+const minute = (n) => new Date(BASE + n * 60_000).toISOString();
+
+// Newest-first channel history of `count` messages from u1; onPage(n) runs after page n is served
+function server(count, onPage = () => {}) {
+  const store = [];
+  for (let i = count - 1; i >= 0; i--) {
+    store.push({ id: `m${i}`, sentDate: minute(i), userId: 'u1', message: `hello ${i}` });
+  }
+  const requests = [];
+
+  const fetch = async (input) => {
+    const url = new URL(input);
+    requests.push(url);
+    if (url.pathname.endsWith('/community/users')) {
+      return Response.json({ result: { userInfoList: [{ id: 'u1', name: 'Alice' }] } });
+    }
+    const limit = Number(url.searchParams.get('pageLimit'));
+    const offset = Number(url.searchParams.get('pageOffset'));
+    const response = Response.json({
+      messages: store.slice(offset, offset + limit),
+      hasMore: offset + limit < store.length
+    });
+    onPage(requests.filter((request) => request.searchParams.has('pageOffset')).length, store);
+    return response;
+  };
+  return { fetch, requests };
+}
+
+async function collect(iterator) {
+  const chunks = [];
+  for await (const chunk of iterator) chunks.push(chunk);
+  return chunks;
+}
+
+const jsonl = (chunks) => chunks.map((chunk) => JSON.parse(chunk));
+
+test('messages are exported oldest first by default', async () => {
+  const client = new SwitchXCore('token', { fetch: server(5).fetch });
+
+  const rows = jsonl(await collect(client.exportConversation({ channelId: 'c1', communityId: 'com1', format: 'jsonl', pageSize: 2 })));
+
+  assert.deepEqual(rows.map((row) => row.id), ['m0', 'm1', 'm2', 'm3', 'm4']);
+  assert.equal(rows[0].author, 'Alice');
+  assert.equal(rows[0].sentDate, minute(0));
+});
+
+test('newestFirst streams in history order', async () => {
+  const client = new SwitchXCore('token', { fetch: server(5).fetch });
+
+  const rows = jsonl(await collect(client.exportConversation({
+    channelId: 'c1',
+    communityId: 'com1',
+    format: 'jsonl',
+    resolveNames: false,
+    newestFirst: true
+  })));
+
+  assert.deepEqual(rows.map((row) => row.id), ['m4', 'm3', 'm2', 'm1', 'm0']);
+  assert.equal(rows[0].author, 'u1');
+});
+
+test('messages repeated by shifting offsets are exported once', async () => {
+  // A new message arrives after each of the first two pages, pushing older ones onto the next page
+  const { fetch } = server(6, (page, store) => {
+    if (page <= 2) store.unshift({ id: `new${page}`, sentDate: minute(10 + page), userId: 'u1' });
+  });
+  const client = new SwitchXCore('token', { fetch });
+
+  const rows = jsonl(await collect(client.exportConversation({
+    channelId: 'c1',
+    communityId: 'com1',
+    format: 'jsonl',
+    resolveNames: false,
+    pageSize: 2
+  })));
+
+  const ids = rows.map((row) => row.id);
+  assert.deepEqual(ids.filter((id) => id.startsWith('m')), ['m0', 'm1', 'm2', 'm3', 'm4', 'm5']);
+  assert.equal(new Set(ids).size, ids.length);
+});
+
+test('since and until limit the range and stop paging early', async () => {
+  const { fetch, requests } = server(20);
+  const client = new SwitchXCore('token', { fetch });
+
+  const rows = jsonl(await collect(client.exportConversation({
+    channelId: 'c1',
+    communityId: 'com1',
+    format: 'jsonl',
+    resolveNames: false,
+    since: minute(15),
+    until: minute(17),
+    pageSize: 3
+  })));
+
+  assert.deepEqual(rows.map((row) => row.id), ['m15', 'm16', 'm17']);
+  assert.equal(requests.length, 2);
+});
+
+test('csv quotes fields and markdown writes a transcript', async () => {
+  const fetch = async () => Response.json({
+    messages: [{ id: 'm1', sentDate: minute(1), userId: 'u1', message: 'a, "quoted"\nline', mediaLink: 'https://cdn/x.png' }],
+    hasMore: false
+  });
+  const client = new SwitchXCore('token', { fetch });
+
+  const csv = await collect(client.exportConversation({ groupId: 'g1', communityId: 'com1', format: 'csv', resolveNames: false }));
+  assert.deepEqual(csv, [
+    'id,sentDate,userId,author,message,mediaUrl\r\n',
+    `m1,${minute(1)},u1,u1,"a, ""quoted""\nline",https://cdn/x.png\r\n`
+  ]);
+
+  const markdown = await collect(client.exportConversation({ groupId: 'g1', communityId: 'com1', format: 'markdown', resolveNames: false, title: 'Team' }));
+  assert.equal(markdown[0], '# Team\n\n');
+  assert.match(markdown[1], /^\*\*u1\*\* · 2026-01-01T00:01:00\.000Z\n\na, "quoted"\nline\n\n\[Attachment\]\(https:\/\/cdn\/x\.png\)/);
+});
+
+test('an unsupported format throws before fetching', async () => {
+  const { fetch, requests } = server(3);
+  const client = new SwitchXCore('token', { fetch });
+
+  await assert.rejects(
+    collect(client.exportConversation({ channelId: 'c1', communityId: 'com1', format: 'xml' })),
+    (error) => error instanceof SwitchXValidationError && /format must be one of jsonl, csv, markdown, got xml/.test(error.message)
+  );
+  assert.equal(requests.length, 0);
+});
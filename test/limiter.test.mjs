@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXValidationError } from '../dist/core/index.mjs';
+
+// fetch whose responses are released by hand
+function gate() {
+  const pending = [];
+  const fetch = (url) => new Promise((resolve) => {
+    pending.push({ url: String(url), release: () => resolve(Response.json({ id: 'u', name: String(url) })) });
+  });
+  return { fetch, pending };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test('maxConcurrent caps requests in flight', async () => {
+  const { fetch, pending } = gate();
+  const client = new SwitchXCore('token', { fetch, rateLimit: { chat: { maxConcurrent: 2 } } });
+
+  const calls = ['a', 'b', 'c'].map((id) => client.getUser(id));
+  await tick();
+  assert.equal(pending.length, 2);
+  assert.deepEqual(client.getQueueMetrics().chat.queued, { interactive: 1, bulk: 0 });
+  assert.equal(client.getQueueMetrics().chat.active, 2);
+
+  pending[0].release();
+  await tick();
+  assert.equal(pending.length, 3);
+
+  pending.slice(1).forEach((request) => request.release());
+  await Promise.all(calls);
+  assert.equal(client.getQueueMetrics().chat.active, 0);
+});
+
+test('interactive requests go ahead of queued bulk ones', async () => {
+  const { fetch, pending } = gate();
+  const client = new SwitchXCore('token', { fetch, rateLimit: { chat: { maxConcurrent: 1 } } });
+
+  const calls = [
+    client.getUser('first'),
+    client.getUser('bulk', { priority: 'bulk' }),
+    client.getUser('interactive')
+  ];
+  for (let index = 0; index < 3; index++) {
+    await tick();
+    pending[index].release();
+  }
+  await Promise.all(calls);
+
+  assert.deepEqual(pending.map((request) => new URL(request.url).searchParams.get('userId')), ['first', 'interactive', 'bulk']);
+});
+
+test('requestsPerSecond spaces requests once the burst is used', async () => {
+  const times = [];
+  const client = new SwitchXCore('token', {
+    fetch: async () => {
+      times.push(Date.now());
+      return Response.json({ id: 'u', name: 'Ada' });
+    },
+    rateLimit: { chat: { requestsPerSecond: 20, burst: 1 } }
+  });
+
+  await Promise.all([client.getUser('a'), client.getUser('b'), client.getUser('c')]);
+
+  assert.ok(times[2] - times[0] >= 90, `took ${times[2] - times[0]}ms`);
+});
+
+test('aborting a queued request removes it from the queue', async () => {
+  const { fetch, pending } = gate();
+  const client = new SwitchXCore('token', { fetch, rateLimit: { chat: { maxConcurrent: 1 } } });
+  const controller = new AbortController();
+
+  const first = client.getUser('a');
+  const queued = client.getUser('b', { signal: controller.signal });
+  await tick();
+  controller.abort();
+
+  await assert.rejects(queued, { name: 'AbortError' });
+  assert.equal(client.getQueueMetrics().chat.queued.interactive, 0);
+  pending[0].release();
+  await first;
+  assert.equal(pending.length, 1);
+});
+
+for (const [limit, value] of [
+  ['burst', 0],
+  ['burst', -1],
+  ['burst', 0.5],
+  ['burst', NaN],
+  ['requestsPerSecond', 0],
+  ['requestsPerSecond', -5],
+  ['requestsPerSecond', Infinity],
+  ['maxConcurrent', 0],
+  ['maxConcurrent', NaN]
+]) {
+  test(`${limit}: ${value} is rejected when the client is created`, () => {
+    assert.throws(
+      () => new SwitchXCore('token', { rateLimit: { chat: { [limit]: value } } }),
+      (error) => error instanceof SwitchXValidationError && error.message.startsWith(limit)
+    );
+  });
+}
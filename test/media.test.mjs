@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, MessageMediaType } from '../dist/core/index.mjs';
+import { SwitchXServer } from '../dist/server/index.mjs';
+
+// Uploads answer with a CDN URL, messages echo an ID
+function recorder({ uploadStatus = 200 } = {}) {
+  const uploads = [];
+  const messages = [];
+  const fetch = async (url, init) => {
+    if (String(url).endsWith('/stream')) {
+      uploads.push(init.body.get('files'));
+      return uploadStatus === 200
+        ? Response.json({ files: [{ url: 'https://cdn.test/file' }] })
+        : new Response('', { status: uploadStatus });
+    }
+    messages.push(JSON.parse(init.body));
+    return Response.json({ id: 'm1' });
+  };
+  return { fetch, uploads, messages };
+}
+
+// 24-byte PNG header: signature, IHDR length and type, then width and height
+function pngHeader(width, height) {
+  const bytes = new Uint8Array(24);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+}
+
+test('sendImage uploads the file and sends its dimensions', async () => {
+  const { fetch, uploads, messages } = recorder();
+  const client = new SwitchXCore('token', { fetch });
+
+  const sent = await client.sendImage('c1', new Blob([pngHeader(640, 480)], { type: 'image/png' }), 'com1', {
+    caption: 'banner',
+    filename: 'banner.png'
+  });
+
+  assert.equal(sent.id, 'm1');
+  assert.equal(uploads[0].name, 'banner.png');
+  assert.deepEqual(messages[0], {
+    communityId: 'com1',
+    channelId: 'c1',
+    message: 'banner',
+    mediaLink: 'https://cdn.test/file',
+    status: MessageMediaType.Image,
+    mediaInfo: { fileName: 'banner.png', mimeType: 'image/png', size: 24, width: 640, height: 480 }
+  });
+});
+
+test('the MIME type is guessed from the file name when the blob has none', async () => {
+  const { fetch, uploads, messages } = recorder();
+  const client = new SwitchXCore('token', { fetch });
+
+  await client.sendDocument('c1', new Blob(['%PDF']), 'com1', { filename: 'report.pdf' });
+
+  assert.equal(uploads[0].type, 'application/pdf');
+  assert.equal(messages[0].status, 7);
+  assert.deepEqual(messages[0].mediaInfo, { fileName: 'report.pdf', mimeType: 'application/pdf', size: 4 });
+});
+
+test('unnamed uploads get a name from the MIME type', async () => {
+  const { fetch, messages } = recorder();
+  const client = new SwitchXCore('token', { fetch });
+
+  await client.sendAudio('c1', new Blob(['id3'], { type: 'audio/mpeg' }), 'com1');
+
+  assert.match(messages[0].mediaInfo.fileName, /^upload_\d+\.mp3$/);
+  assert.equal(messages[0].status, MessageMediaType.Audio);
+});
+
+test('nothing is sent when the upload fails', async () => {
+  const { fetch, messages } = recorder({ uploadStatus: 500 });
+  const client = new SwitchXCore('token', { fetch, retry: false });
+
+  await assert.rejects(client.sendVideo('c1', new Blob(['mp4'], { type: 'video/mp4' }), 'com1'), /Failed to upload media/);
+  assert.equal(messages.length, 0);
+});
+
+test('sendSticker sends the sticker without uploading', async () => {
+  const { fetch, uploads, messages } = recorder();
+  const client = new SwitchXCore('token', { fetch });
+
+  await client.sendSticker('c1', { id: 's1', stickerPackId: 'p1', name: 'wave', url: 'https://cdn.test/wave.webp' }, 'com1');
+
+  assert.equal(uploads.length, 0);
+  assert.equal(messages[0].status, 200);
+  assert.equal(messages[0].mediaLink, 'https://cdn.test/wave.webp');
+  assert.deepEqual(messages[0].mediaInfo, { stickerId: 's1', stickerPackId: 'p1', name: 'wave' });
+});
+
+test('server buffers are sent with the same media info', async () => {
+  const { fetch, uploads, messages } = recorder();
+  const client = new SwitchXServer('bot-token', { fetch });
+
+  await client.sendImageFromBuffer('c1', Buffer.from(pngHeader(32, 16)), 'chart.png', 'com1');
+
+  assert.equal(uploads[0].type, 'image/png');
+  assert.deepEqual(messages[0].mediaInfo, { fileName: 'chart.png', mimeType: 'image/png', size: 24, width: 32, height: 16 });
+});
@@ -0,0 +1,153 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXNotFoundError, SwitchXValidationError } from '../dist/core/index.mjs';
+
+const BASE = Date.parse('2026-01-01T00:00:00Z');
+const minute = (n) => new Date(BASE + n * 60_000).toISOString();
+
+// Offset-paged history, newest first: message i was sent at minute i
+// onPage(n) runs after page n is served, so tests can add messages mid-scan
+function history(count, onPage = () => {}) {
+  const store = [];
+  for (let i = count - 1; i >= 0; i--) store.push({ id: `m${i}`, sentDate: minute(i) });
+  const offsets = [];
+
+  const fetch = async (input) => {
+    const url = new URL(input);
+    const limit = Number(url.searchParams.get('pageLimit') ?? url.searchParams.get('limit'));
+    const offset = Number(url.searchParams.get('pageOffset') ?? url.searchParams.get('offset'));
+    offsets.push(offset);
+    const messages = store.slice(offset, offset + limit);
+    const response = Response.json({ messages, totalCount: store.length, hasMore: offset + limit < store.length });
+    onPage(offsets.length, store);
+    return response;
+  };
+  return { fetch, offsets, store };
+}
+
+const ids = (page) => page.messages.map((message) => message.id);
+
+test('the newest page comes first with cursors for the next call', async () => {
+  const client = new SwitchXCore('token', { fetch: history(10).fetch });
+
+  const page = await client.getMessages({ channelId: 'c1', communityId: 'com1', limit: 3 });
+
+  assert.deepEqual(ids(page), ['m9', 'm8', 'm7']);
+  assert.equal(page.hasMore, true);
+  assert.equal(page.before, 'm7');
+  assert.equal(page.after, 'm9');
+});
+
+test('before returns the messages older than the cursor', async () => {
+  const { fetch, offsets } = history(10);
+  const client = new SwitchXCore('token', { fetch });
+
+  const page = await client.getMessages({ channelId: 'c1', communityId: 'com1', before: 'm7', limit: 3 });
+
+  assert.deepEqual(ids(page), ['m6', 'm5', 'm4']);
+  assert.equal(page.hasMore, true);
+  assert.deepEqual(offsets, [0, 3]);
+});
+
+test('the last page before the start reports no more messages', async () => {
+  const client = new SwitchXCore('token', { fetch: history(10).fetch });
+
+  const page = await client.getMessages({ groupId: 'g1', communityId: 'com1', before: 'm2', limit: 3 });
+
+  assert.deepEqual(ids(page), ['m1', 'm0']);
+  assert.equal(page.hasMore, false);
+});
+
+test('after returns the messages closest to the cursor', async () => {
+  const client = new SwitchXCore('token', { fetch: history(10).fetch });
+
+  const page = await client.getMessages({ channelId: 'c1', communityId: 'com1', after: 'm2', limit: 3 });
+
+  assert.deepEqual(ids(page), ['m5', 'm4', 'm3']);
+  assert.equal(page.hasMore, true);
+
+  const rest = await client.getMessages({ channelId: 'c1', communityId: 'com1', after: page.after, limit: 10 });
+  assert.deepEqual(ids(rest), ['m9', 'm8', 'm7', 'm6']);
+  assert.equal(rest.hasMore, false);
+});
+
+test('messages arriving mid-scan are neither repeated nor skipped', async () => {
+  // Two new messages land after the first page, shifting every later offset by two
+  const { fetch, store } = history(10, (page, messages) => {
+    if (page === 1) messages.unshift({ id: 'new1', sentDate: minute(20) }, { id: 'new0', sentDate: minute(19) });
+  });
+  const client = new SwitchXCore('token', { fetch });
+
+  const page = await client.getMessages({ channelId: 'c1', communityId: 'com1', before: 'm8', limit: 4 });
+
+  assert.deepEqual(ids(page), ['m7', 'm6', 'm5', 'm4']);
+  assert.equal(store.length, 12);
+});
+
+test('a since window reads across overlapping pages once', async () => {
+  const { fetch } = history(10, (page, messages) => {
+    if (page < 3) messages.unshift({ id: `new${page}`, sentDate: minute(30 + page) });
+  });
+  const client = new SwitchXCore('token', { fetch });
+
+  const page = await client.getMessages({ channelId: 'c1', communityId: 'com1', since: minute(2), until: minute(9), limit: 50 });
+
+  assert.deepEqual(ids(page), ['m9', 'm8', 'm7', 'm6', 'm5', 'm4', 'm3', 'm2']);
+  assert.equal(new Set(ids(page)).size, page.messages.length);
+});
+
+test('since and until are inclusive at their boundaries', async () => {
+  const { fetch, offsets } = history(10);
+  const client = new SwitchXCore('token', { fetch });
+
+  const page = await client.getMessages({
+    channelId: 'c1',
+    communityId: 'com1',
+    since: new Date(BASE + 3 * 60_000),
+    until: BASE + 6 * 60_000,
+    limit: 3
+  });
+
+  assert.deepEqual(ids(page), ['m6', 'm5', 'm4']);
+  assert.equal(page.hasMore, true);
+
+  const older = await client.getMessages({ channelId: 'c1', communityId: 'com1', before: page.before, since: minute(3), limit: 3 });
+  assert.deepEqual(ids(older), ['m3']);
+  assert.equal(older.hasMore, false);
+  assert.ok(offsets.length > 2);
+});
+
+test('messages sharing the cursor timestamp stay in the older page', async () => {
+  const { fetch, store } = history(6);
+  store.splice(2, 0, { id: 'twin', sentDate: minute(4) });
+  const client = new SwitchXCore('token', { fetch });
+
+  const page = await client.getMessages({ channelId: 'c1', communityId: 'com1', before: 'm4', limit: 10 });
+
+  assert.deepEqual(ids(page), ['twin', 'm3', 'm2', 'm1', 'm0']);
+});
+
+test('a cursor that is not in the conversation throws SwitchXNotFoundError', async () => {
+  const client = new SwitchXCore('token', { fetch: history(5).fetch });
+
+  await assert.rejects(client.getMessages({ channelId: 'c1', communityId: 'com1', before: 'gone' }), SwitchXNotFoundError);
+  await assert.rejects(client.getMessages({ channelId: 'c1', communityId: 'com1', after: 'gone' }), SwitchXNotFoundError);
+});
+
+test('an after cursor older than since is not required', async () => {
+  const client = new SwitchXCore('token', { fetch: history(10).fetch });
+
+  const page = await client.getMessages({ channelId: 'c1', communityId: 'com1', after: 'gone', since: minute(8) });
+
+  assert.deepEqual(ids(page), ['m9', 'm8']);
+});
+
+test('invalid queries throw before sending', async () => {
+  const { fetch, offsets } = history(5);
+  const client = new SwitchXCore('token', { fetch });
+
+  await assert.rejects(client.getMessages({ communityId: 'com1' }), SwitchXValidationError);
+  await assert.rejects(client.getMessages({ channelId: 'c1', groupId: 'g1', communityId: 'com1' }), SwitchXValidationError);
+  await assert.rejects(client.getMessages({ channelId: 'c1', communityId: 'com1', since: 'not a date' }), /Invalid since date/);
+  assert.equal(offsets.length, 0);
+});
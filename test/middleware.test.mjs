@@ -0,0 +1,94 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore } from '../dist/core/index.mjs';
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+function serve(handler) {
+  const requests = [];
+  globalThis.fetch = async (url, init) => {
+    requests.push({ url: String(url), ...init });
+    return handler(requests.length);
+  };
+  return requests;
+}
+
+const user = () => Response.json({ id: 'u1', name: 'Ada' });
+
+test('middleware runs in registration order, options first, then use()', async () => {
+  serve(user);
+  const order = [];
+  const trace = (name) => async (request, next) => {
+    order.push(`${name}:before`);
+    const response = await next(request);
+    order.push(`${name}:after`);
+    return response;
+  };
+  const client = new SwitchXCore('token', { middleware: [trace('a')] });
+  client.use(trace('b')).use(trace('c'));
+
+  await client.getUser('u1');
+
+  assert.deepEqual(order, ['a:before', 'b:before', 'c:before', 'c:after', 'b:after', 'a:after']);
+});
+
+test('middleware sees the request and can change what is sent', async () => {
+  const requests = serve(user);
+  let seen;
+  const client = new SwitchXCore('token', { endpoints: { chat: 'http://chat.test' } });
+  client.use(async (request, next) => {
+    seen = { ...request };
+    request.headers['X-Trace-Id'] = 'trace-1';
+    return next({ ...request, url: `${request.url}&debug=1` });
+  });
+
+  await client.getUser('u1');
+
+  assert.equal(seen.method, 'GET');
+  assert.equal(seen.service, 'chat');
+  assert.equal(seen.action, 'Failed to get user');
+  assert.equal(seen.attempt, 1);
+  assert.equal(seen.headers.Authorization, 'token');
+  assert.equal(requests[0].url, 'http://chat.test/user/info?userId=u1&debug=1');
+  assert.equal(requests[0].headers['X-Trace-Id'], 'trace-1');
+});
+
+test('middleware can short-circuit without calling fetch', async () => {
+  const requests = serve(user);
+  const client = new SwitchXCore('token');
+  client.use(async () => Response.json({ id: 'u2', name: 'Grace' }));
+
+  const result = await client.getUser('u1');
+
+  assert.equal(result.name, 'Grace');
+  assert.equal(requests.length, 0);
+});
+
+test('middleware can rewrite the response', async () => {
+  serve(() => Response.json({ id: 'u1', name: 'Ada' }));
+  const client = new SwitchXCore('token');
+  client.use(async (request, next) => {
+    const response = await next(request);
+    const body = await response.json();
+    return Response.json({ ...body, name: body.name.toUpperCase() });
+  });
+
+  assert.equal((await client.getUser('u1')).name, 'ADA');
+});
+
+test('every retry passes through middleware with its attempt number', async () => {
+  serve((call) => (call === 1 ? new Response('', { status: 503 }) : user()));
+  const attempts = [];
+  const client = new SwitchXCore('token', { retry: { baseDelay: 1 } });
+  client.use(async (request, next) => {
+    attempts.push(request.attempt);
+    return next(request);
+  });
+
+  await client.getUser('u1');
+
+  assert.deepEqual(attempts, [1, 2]);
+});
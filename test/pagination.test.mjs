@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore } from '../dist/core/index.mjs';
+
+// Serves `total` messages by offset, reporting hasMore like the chat API
+// Channels page with pageLimit/pageOffset, groups with limit/offset
+function history(total) {
+  const requests = [];
+  const fetch = async (input) => {
+    const url = new URL(input);
+    requests.push(url);
+    const limit = Number(url.searchParams.get('pageLimit') ?? url.searchParams.get('limit'));
+    const offset = Number(url.searchParams.get('pageOffset') ?? url.searchParams.get('offset'));
+    const messages = [];
+    for (let i = offset; i < Math.min(offset + limit, total); i++) {
+      messages.push({ id: `m${i}`, message: `message ${i}` });
+    }
+    return Response.json({ messages, totalCount: total, hasMore: offset + limit < total });
+  };
+  return { fetch, requests };
+}
+
+async function collect(iterator) {
+  const items = [];
+  for await (const item of iterator) items.push(item);
+  return items;
+}
+
+test('iterates every page until hasMore is false', async () => {
+  const { fetch, requests } = history(25);
+  const client = new SwitchXCore('token', { fetch });
+
+  const messages = await collect(client.iterateChannelMessages('c1', 'com1', { pageSize: 10 }));
+
+  assert.deepEqual(messages.map((message) => message.id), Array.from({ length: 25 }, (_, i) => `m${i}`));
+  assert.deepEqual(requests.map((url) => url.searchParams.get('pageOffset')), ['0', '10', '20']);
+});
+
+test('max caps the items and stops fetching', async () => {
+  const { fetch, requests } = history(100);
+  const client = new SwitchXCore('token', { fetch });
+
+  const messages = await collect(client.iterateGroupMessages('g1', 'com1', { pageSize: 10, max: 15 }));
+
+  assert.equal(messages.length, 15);
+  assert.equal(requests.length, 2);
+});
+
+test('breaking out of the loop requests no further pages', async () => {
+  const { fetch, requests } = history(100);
+  const client = new SwitchXCore('token', { fetch });
+
+  for await (const message of client.iterateChannelMessages('c1', 'com1', { pageSize: 10 })) {
+    if (message.id === 'm3') break;
+  }
+
+  assert.equal(requests.length, 1);
+});
+
+test('without hasMore a short page ends the iteration', async () => {
+  const offsets = [];
+  const client = new SwitchXCore('token', {
+    fetch: async (input) => {
+      const offset = Number(new URL(input).searchParams.get('offset'));
+      offsets.push(offset);
+      return Response.json(offset === 0 ? [{ id: 'n1' }, { id: 'n2' }] : [{ id: 'n3' }]);
+    }
+  });
+
+  const notifications = await collect(client.iterateNotifications('u1', { pageSize: 2 }));
+
+  assert.equal(notifications.length, 3);
+  assert.deepEqual(offsets, [0, 2]);
+});
+
+test('page-numbered endpoints advance the page index', async () => {
+  const pages = [];
+  const client = new SwitchXCore('token', {
+    fetch: async (input) => {
+      const page = Number(new URL(input).searchParams.get('page'));
+      pages.push(page);
+      return Response.json(page < 2 ? [{ id: `s${page}a` }, { id: `s${page}b` }] : []);
+    }
+  });
+
+  const results = await collect(client.iterateSearchMessages('release', 'com1', { pageSize: 2 }));
+
+  assert.equal(results.length, 4);
+  assert.deepEqual(pages, [0, 1, 2]);
+});
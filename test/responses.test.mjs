@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXDecodeError } from '../dist/core/index.mjs';
+
+const answering = (body) => async () => Response.json(body);
+
+test('delete endpoints resolve to nothing', async () => {
+  const client = new SwitchXCore('token', { fetch: answering({ result: { deleted: true } }) });
+
+  assert.equal(await client.deleteChannel('c1', 'com1'), undefined);
+  assert.equal(await client.deleteGroup('g1', 'com1'), undefined);
+});
+
+test('updateChannel and updateGroup return mapped models', async () => {
+  const client = new SwitchXCore('token', {
+    fetch: async (input) => String(input).includes('/channel')
+      ? Response.json({ result: { channelId: 5, channelName: 'renamed', icon: '#' } })
+      : Response.json({ groupId: 'g1', groupName: 'team' })
+  });
+
+  assert.deepEqual(
+    await client.updateChannel({ communityId: 'com1', channelId: '5', channelName: 'renamed' }),
+    { id: '5', name: 'renamed', emoji: '#' }
+  );
+
+  const group = await client.updateGroup('g1', 'team', 'com1');
+  assert.equal(group.id, 'g1');
+  assert.equal(group.name, 'team');
+});
+
+test('partial update echoes fall back to what was sent', async () => {
+  const client = new SwitchXCore('token', { fetch: answering({ result: {} }) });
+
+  assert.deepEqual(
+    await client.updateChannel({ communityId: 'com1', channelId: 'c1', channelName: 'general', icon: '*' }),
+    { id: 'c1', name: 'general', emoji: '*' }
+  );
+  assert.deepEqual(await client.addMember('u1', 'com1', { admin: true }), {
+    userId: 'u1',
+    communityId: 'com1',
+    admin: true
+  });
+});
+
+test('updateCommunity returns the saved community details', async () => {
+  const client = new SwitchXCore('token', {
+    fetch: async (input, init) => init?.method === 'PUT'
+      ? Response.json({ result: { communityName: 'Renamed', member: 3 } })
+      : Response.json({ result: { communityId: 'com1', communityName: 'Old' } })
+  });
+
+  const details = await client.updateCommunity('com1', { communityName: 'Renamed' });
+
+  assert.equal(details.id, 'com1');
+  assert.equal(details.name, 'Renamed');
+  assert.equal(details.memberCount, 3);
+});
+
+test('malformed update responses are rejected in strict mode', async () => {
+  const client = new SwitchXCore('token', { fetch: answering({ result: { userId: 'u1', admin: 'yes' } }) });
+
+  const error = await client.addMember('u1', 'com1').catch((error) => error);
+
+  assert.ok(error instanceof SwitchXDecodeError);
+  assert.deepEqual(error.issues, [{ path: 'result.admin', expected: 'boolean', received: 'string' }]);
+});
@@ -0,0 +1,86 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXError, SwitchXNotFoundError } from '../dist/core/index.mjs';
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+// Answers with each response in turn and records the call times
+function script(...responses) {
+  const calls = [];
+  globalThis.fetch = async () => {
+    calls.push(Date.now());
+    const next = responses[Math.min(calls.length, responses.length) - 1];
+    if (next instanceof Error) throw next;
+    return next();
+  };
+  return calls;
+}
+
+const status = (code, headers) => () => new Response('', { status: code, headers });
+const user = () => Response.json({ id: 'u1', name: 'Ada' });
+
+test('reads retry transient statuses and network errors', async () => {
+  const calls = script(status(503), new TypeError('fetch failed'), user);
+  const client = new SwitchXCore('token', { retry: { baseDelay: 1 } });
+
+  const result = await client.getUser('u1');
+
+  assert.equal(result.name, 'Ada');
+  assert.equal(calls.length, 3);
+});
+
+test('gives up after the configured attempts', async () => {
+  const calls = script(status(500));
+  const client = new SwitchXCore('token', { retry: { attempts: 2, baseDelay: 1 } });
+
+  await assert.rejects(client.getUser('u1'), (error) => error instanceof SwitchXError && error.status === 500);
+  assert.equal(calls.length, 2);
+});
+
+test('statuses outside retryOn fail at once', async () => {
+  const calls = script(status(404));
+  const client = new SwitchXCore('token', { retry: { baseDelay: 1 } });
+
+  await assert.rejects(client.getUser('u1'), SwitchXNotFoundError);
+  assert.equal(calls.length, 1);
+});
+
+test('Retry-After sets the delay', async () => {
+  const calls = script(status(429, { 'retry-after': '0.05' }), user);
+  const client = new SwitchXCore('token', { retry: { baseDelay: 1 } });
+
+  await client.getUser('u1');
+
+  assert.equal(calls.length, 2);
+  assert.ok(calls[1] - calls[0] >= 45, `waited ${calls[1] - calls[0]}ms`);
+});
+
+test('a Retry-After over maxDelay is not waited for', async () => {
+  const calls = script(status(429, { 'retry-after': '60' }), user);
+  const client = new SwitchXCore('token', { retry: { maxDelay: 1000 } });
+
+  await assert.rejects(client.getUser('u1'), (error) => error.status === 429 && error.retryAfter === 60000);
+  assert.equal(calls.length, 1);
+});
+
+test('retry: false on the client disables retries', async () => {
+  const calls = script(status(503), user);
+
+  await assert.rejects(new SwitchXCore('token', { retry: false }).getUser('u1'));
+  assert.equal(calls.length, 1);
+});
+
+test('mutations only retry when the call opts in', async () => {
+  let calls = script(status(503), () => Response.json({ id: 'm1' }));
+  const client = new SwitchXCore('token', { retry: { baseDelay: 1 } });
+
+  await assert.rejects(client.sendMessage('c1', 'hi', 'com1'));
+  assert.equal(calls.length, 1);
+
+  calls = script(status(503), () => Response.json({ id: 'm1' }));
+  await client.sendMessage('c1', 'hi', 'com1', undefined, { retry: true });
+  assert.equal(calls.length, 2);
+});
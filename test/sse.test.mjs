@@ -0,0 +1,162 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseEventStream, AIChatStream, SwitchXError } from '../dist/core/index.mjs';
+
+const encoder = new TextEncoder();
+
+// Body that delivers the given chunks one read at a time; `cancelled` records whether the reader gave up
+// Like fetch, an aborted signal errors the body
+function body(chunks, signal) {
+  const state = { cancelled: false, pulls: 0 };
+  state.stream = new ReadableStream({
+    start(controller) {
+      signal?.addEventListener('abort', () => controller.error(signal.reason));
+    },
+    pull(controller) {
+      const chunk = chunks[state.pulls++];
+      if (chunk === undefined) controller.close();
+      else controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+    },
+    cancel() {
+      state.cancelled = true;
+    }
+  });
+  return state;
+}
+
+async function parse(chunks) {
+  const events = [];
+  for await (const event of parseEventStream(body(chunks).stream)) events.push(event);
+  return events;
+}
+
+// Every way of cutting the text into two chunks parses the same
+async function parseEverySplit(text) {
+  const results = [];
+  for (let cut = 0; cut <= text.length; cut++) {
+    results.push(await parse([text.slice(0, cut), text.slice(cut)]));
+  }
+  return results;
+}
+
+test('events are split on blank lines with default and named events', async () => {
+  assert.deepEqual(await parse(['data: one\n\nevent: update\ndata: two\nid: 7\n\n']), [
+    { event: 'message', data: 'one' },
+    { event: 'update', data: 'two', id: '7' }
+  ]);
+});
+
+test('multi-line data fields are joined with newlines', async () => {
+  assert.deepEqual(await parse(['data: first\ndata: second\ndata:\ndata:  indented\n\n']), [
+    { event: 'message', data: 'first\nsecond\n\n indented' }
+  ]);
+});
+
+test('CRLF and CR line endings are accepted', async () => {
+  assert.deepEqual(await parse(['data: a\r\ndata: b\r\n\r\ndata: c\r\rdata: d\n\n']), [
+    { event: 'message', data: 'a\nb' },
+    { event: 'message', data: 'c' },
+    { event: 'message', data: 'd' }
+  ]);
+});
+
+test('comments and unknown fields are skipped', async () => {
+  assert.deepEqual(await parse([': keep-alive\n\nretry: 1000\ndata: x\n: note\nfoo\n\n']), [
+    { event: 'message', data: 'x' }
+  ]);
+});
+
+test('events split anywhere across chunks are reassembled', async () => {
+  const text = 'event: delta\r\ndata: {"text":"hé"}\r\n\r\n: ping\n\ndata: [DONE]\n\n';
+  const expected = [{ event: 'delta', data: '{"text":"hé"}' }, { event: 'message', data: '[DONE]' }];
+
+  for (const events of await parseEverySplit(text)) {
+    assert.deepEqual(events, expected);
+  }
+
+  // A multi-byte character split between chunks
+  const bytes = encoder.encode('data: hé\n\n');
+  assert.deepEqual(await parse([bytes.slice(0, 8), bytes.slice(8)]), [{ event: 'message', data: 'hé' }]);
+
+  // One character per chunk
+  assert.deepEqual(await parse([...text]), expected);
+});
+
+test('a final event without a trailing blank line is still delivered', async () => {
+  assert.deepEqual(await parse(['data: last']), [{ event: 'message', data: 'last' }]);
+});
+
+test('stopping early cancels the body', async () => {
+  const source = body(['data: 1\n\n', 'data: 2\n\n', 'data: 3\n\n']);
+
+  for await (const event of parseEventStream(source.stream)) {
+    assert.equal(event.data, '1');
+    break;
+  }
+
+  assert.equal(source.cancelled, true);
+});
+
+// Stream over a fake completion response built from SSE chunks
+function chatStream(chunks, signal) {
+  let source;
+  const stream = new AIChatStream(async (streamSignal) => {
+    source = body(chunks, streamSignal);
+    return new Response(source.stream, { headers: { 'Content-Type': 'text/event-stream' } });
+  }, signal);
+  return { stream, source: () => source };
+}
+
+const delta = (text) => `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`;
+
+test('[DONE] ends the stream and stops reading', async () => {
+  const { stream, source } = chatStream([delta('Hel'), delta('lo'), 'data: [DONE]\n\n', delta(' ignored')]);
+
+  const deltas = [];
+  for await (const text of stream) deltas.push(text);
+
+  assert.deepEqual(deltas, ['Hel', 'lo']);
+  assert.equal((await stream.final()).text, 'Hello');
+  assert.equal(source().cancelled, true);
+});
+
+test('an error event rejects the stream', async () => {
+  const { stream } = chatStream([delta('a'), 'event: error\ndata: {"message":"quota exceeded"}\n\n']);
+
+  await assert.rejects(stream.final(), (error) => error instanceof SwitchXError && /quota exceeded/.test(error.message));
+});
+
+test('aborting the caller signal cancels the stream', async () => {
+  const controller = new AbortController();
+  const { stream, source } = chatStream([delta('a'), delta('b'), delta('c')], controller.signal);
+  const reason = new Error('user left');
+
+  await assert.rejects(async () => {
+    for await (const _text of stream) controller.abort(reason);
+  }, (error) => error === reason);
+  assert.equal(source().pulls < 3, true);
+});
+
+test('the listener on the caller signal is removed when the stream ends', async (t) => {
+  for (const end of ['finish', 'break', 'cancel']) {
+    const controller = new AbortController();
+    const added = t.mock.method(controller.signal, 'addEventListener');
+    const removed = t.mock.method(controller.signal, 'removeEventListener');
+    const { stream } = chatStream([delta('a'), delta('b')], controller.signal);
+
+    if (end === 'cancel') {
+      stream.cancel();
+    } else {
+      for await (const _text of stream) {
+        if (end === 'break') break;
+      }
+    }
+
+    assert.equal(added.mock.callCount(), 1, end);
+    const [type, listener] = added.mock.calls[0].arguments;
+    assert.ok(
+      removed.mock.calls.some((call) => call.arguments[0] === type && call.arguments[1] === listener),
+      `${end} removes the abort listener`
+    );
+  }
+});
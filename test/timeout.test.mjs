@@ -0,0 +1,91 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXTimeoutError, SwitchXNetworkError } from '../dist/core/index.mjs';
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+// fetch that never answers and rejects once its signal aborts
+function hang() {
+  const signals = [];
+  globalThis.fetch = (_url, init) => new Promise((_resolve, reject) => {
+    signals.push(init.signal);
+    init.signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+  });
+  return signals;
+}
+
+test('a request that outlives its timeout throws SwitchXTimeoutError', async () => {
+  hang();
+  const client = new SwitchXCore('token', { retry: false });
+
+  const error = await client.getUser('u1', { timeout: 20 }).catch((error) => error);
+
+  assert.ok(error instanceof SwitchXTimeoutError);
+  assert.ok(error instanceof SwitchXNetworkError);
+  assert.match(error.message, /timed out after 20ms/);
+});
+
+test('the client timeout applies when a call sets none', async () => {
+  hang();
+  const client = new SwitchXCore('token', { retry: false, timeout: 20 });
+
+  await assert.rejects(client.getUser('u1'), SwitchXTimeoutError);
+});
+
+test('aborting rejects with the signal reason and is never retried', async () => {
+  const signals = hang();
+  const client = new SwitchXCore('token', { retry: { baseDelay: 1 } });
+  const controller = new AbortController();
+  const reason = new Error('user left');
+
+  const pending = client.getUser('u1', { signal: controller.signal });
+  setTimeout(() => controller.abort(reason), 10);
+
+  await assert.rejects(pending, (error) => error === reason);
+  assert.equal(signals.length, 1);
+  assert.ok(signals[0].aborted);
+});
+
+test('an already aborted signal never sends', async () => {
+  const signals = hang();
+  const controller = new AbortController();
+  controller.abort();
+
+  await assert.rejects(new SwitchXCore('token').getUser('u1', { signal: controller.signal }), { name: 'AbortError' });
+  assert.equal(signals.length, 0);
+});
+
+test('aborting during a retry wait stops the retries', async () => {
+  let calls = 0;
+  globalThis.fetch = async () => {
+    calls++;
+    return new Response('', { status: 503, headers: { 'retry-after': '5' } });
+  };
+  const client = new SwitchXCore('token');
+  const controller = new AbortController();
+
+  const pending = client.getUser('u1', { signal: controller.signal });
+  setTimeout(() => controller.abort(), 20);
+
+  await assert.rejects(pending, { name: 'AbortError' });
+  assert.equal(calls, 1);
+});
+
+test('timed out reads are retried', async () => {
+  let calls = 0;
+  globalThis.fetch = (_url, init) => {
+    if (++calls === 2) return Promise.resolve(Response.json({ id: 'u1', name: 'Ada' }));
+    return new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    });
+  };
+  const client = new SwitchXCore('token', { retry: { baseDelay: 1 }, timeout: 20 });
+
+  const user = await client.getUser('u1');
+
+  assert.equal(user.name, 'Ada');
+  assert.equal(calls, 2);
+});
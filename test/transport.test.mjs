@@ -0,0 +1,83 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore } from '../dist/core/index.mjs';
+import { SwitchXServer, SwitchXTimeoutError } from '../dist/server/index.mjs';
+
+function recorder(handler = () => Response.json({ id: 'u1', name: 'Ada' })) {
+  const requests = [];
+  const fetch = async (url, init) => {
+    requests.push({ url: String(url), ...init });
+    return handler(String(url), init);
+  };
+  return { fetch, requests };
+}
+
+test('the injected fetch is used instead of the global one', async (t) => {
+  const global = t.mock.method(globalThis, 'fetch', async () => {
+    throw new Error('global fetch called');
+  });
+  const { fetch, requests } = recorder();
+
+  await new SwitchXCore('token', { fetch }).getUser('u1');
+
+  assert.equal(requests.length, 1);
+  assert.equal(global.mock.callCount(), 0);
+});
+
+test('server uploads go through the injected fetch and the middleware', async () => {
+  const { fetch, requests } = recorder(() => Response.json({ files: [{ url: 'https://cdn.test/a.png' }] }));
+  const client = new SwitchXServer('bot-token', { fetch, endpoints: { upload: 'http://upload.test' } });
+  const seen = [];
+  client.use(async (request, next) => {
+    seen.push(request.service);
+    return next(request);
+  });
+
+  const url = await client.uploadFromBuffer(Buffer.from('png'), 'a.png', 'image/png');
+
+  assert.equal(url, 'https://cdn.test/a.png');
+  assert.deepEqual(seen, ['upload']);
+  assert.equal(requests[0].url, 'http://upload.test/stream');
+  assert.equal(requests[0].headers.Authorization, 'bot-token');
+  assert.ok(requests[0].body instanceof FormData);
+  assert.equal(requests[0].body.get('files').name, 'a.png');
+});
+
+test('server calls get the shared retry and error handling', async () => {
+  let calls = 0;
+  const client = new SwitchXServer('bot-token', {
+    retry: { baseDelay: 1 },
+    fetch: async () => (++calls === 1 ? new Response('', { status: 503 }) : Response.json({ name: 'App' }))
+  });
+
+  const info = await client.getAppInfo();
+
+  assert.equal(info.name, 'App');
+  assert.equal(calls, 2);
+});
+
+test('notifications keep the 10s platform timeout', async () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const client = new SwitchXServer('bot-token', {
+      retry: false,
+      fetch: (_url, init) => new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      })
+    });
+    let settled = false;
+    const pending = client.sendNotification({ userId: 'u1', title: 't', message: 'm' })
+      .finally(() => { settled = true; });
+    pending.catch(() => {});
+
+    await new Promise((resolve) => setImmediate(resolve));
+    mock.timers.tick(9999);
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(settled, false);
+
+    mock.timers.tick(1);
+    await assert.rejects(pending, SwitchXTimeoutError);
+  } finally {
+    mock.timers.reset();
+  }
+});
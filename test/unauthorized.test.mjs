@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXAuthError, MemoryCacheStorage } from '../dist/core/index.mjs';
+
+// Accepts only the given token and records the Authorization header of every call
+function server(validToken) {
+  const seen = [];
+  const fetch = async (_url, init) => {
+    seen.push(init.headers.Authorization);
+    return init.headers.Authorization === validToken
+      ? Response.json({ id: 'u1', name: 'Ada' })
+      : new Response('{"message":"expired"}', { status: 401 });
+  };
+  return { fetch, seen };
+}
+
+test('a 401 asks for a new token and replays the request once', async () => {
+  const { fetch, seen } = server('fresh');
+  const errors = [];
+  const client = new SwitchXCore('stale', {
+    fetch,
+    onUnauthorized: (error) => {
+      errors.push(error);
+      return 'fresh';
+    }
+  });
+
+  const user = await client.getUser('u1');
+
+  assert.equal(user.name, 'Ada');
+  assert.deepEqual(seen, ['stale', 'fresh']);
+  assert.equal(client.getToken(), 'fresh');
+  assert.ok(errors[0] instanceof SwitchXAuthError);
+});
+
+test('without a new token the 401 is rethrown', async () => {
+  const { fetch, seen } = server('fresh');
+  const client = new SwitchXCore('stale', { fetch, onUnauthorized: () => undefined });
+
+  await assert.rejects(client.getUser('u1'), (error) => error instanceof SwitchXAuthError && error.status === 401);
+  assert.equal(seen.length, 1);
+});
+
+test('a replay that fails again is not refreshed twice', async () => {
+  const { fetch, seen } = server('never');
+  let refreshes = 0;
+  const client = new SwitchXCore('stale', { fetch, onUnauthorized: () => `fresh-${++refreshes}` });
+
+  await assert.rejects(client.getUser('u1'), SwitchXAuthError);
+  assert.equal(refreshes, 1);
+  assert.deepEqual(seen, ['stale', 'fresh-1']);
+});
+
+test('concurrent 401s share one refresh', async () => {
+  const { fetch } = server('fresh');
+  let refreshes = 0;
+  const client = new SwitchXCore('stale', {
+    fetch,
+    onUnauthorized: async () => {
+      refreshes++;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return 'fresh';
+    }
+  });
+
+  await Promise.all([client.getUser('u1'), client.getUser('u2'), client.getUser('u3', { dedupe: false })]);
+
+  assert.equal(refreshes, 1);
+});
+
+test('403 is not treated as an expired token', async () => {
+  let refreshes = 0;
+  const client = new SwitchXCore('token', {
+    fetch: async () => new Response('', { status: 403 }),
+    onUnauthorized: () => { refreshes++; return 'fresh'; }
+  });
+
+  await assert.rejects(client.getUser('u1'), (error) => error.status === 403);
+  assert.equal(refreshes, 0);
+});
+
+test('setToken validates and moves the cache to the new user', async () => {
+  const storage = new MemoryCacheStorage();
+  const client = new SwitchXCore('token-a', { fetch: async () => Response.json({ id: 'u1', name: 'Ada' }), cache: { storage } });
+
+  await client.getUser('u1');
+  client.setToken('token-b');
+  await client.getUser('u1');
+
+  assert.throws(() => client.setToken(''), /Token is required/);
+  assert.equal(new Set(storage.keys().map((key) => key.split(':')[1])).size, 2);
+});
@@ -0,0 +1,158 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwitchXCore, SwitchXWatcher } from '../dist/core/index.mjs';
+
+const BASE = Date.parse('2026-01-01T00:00:00Z');
+const minute = (n) => new Date(BASE + n * 60_000).toISOString();
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+// Lets a poll run to the point where it sleeps again
+async function settle() {
+  for (let i = 0; i < 10; i++) await tick();
+}
+
+// Channel history the test can change between polls; `fail` makes polls answer 503
+function server() {
+  const state = { messages: [], fail: false, polls: [] };
+  state.fetch = async () => {
+    state.polls.push(Date.now());
+    if (state.fail) return new Response('', { status: 503 });
+    return Response.json({ messages: state.messages, hasMore: false });
+  };
+  return state;
+}
+
+function record(watcher) {
+  const events = [];
+  for (const type of ['message.created', 'message.edited', 'message.deleted']) {
+    watcher.on(type, (event) => events.push([type, event.message.id]));
+  }
+  const errors = [];
+  watcher.on('error', (error) => errors.push(error));
+  return { events, errors };
+}
+
+test('created, edited and deleted messages are emitted after the baseline poll', async () => {
+  mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  const state = server();
+  state.messages = [
+    { id: 'm2', sentDate: minute(2), message: 'two' },
+    { id: 'm1', sentDate: minute(1), message: 'one' }
+  ];
+  const client = new SwitchXCore('token', { fetch: state.fetch, retry: false });
+  const watcher = client.watch({ channelIds: ['c1'], communityId: 'com1', interval: 100 });
+  const { events } = record(watcher);
+
+  try {
+    await settle();
+    assert.equal(state.polls.length, 1);
+    assert.deepEqual(events, []);
+
+    state.messages = [
+      { id: 'm3', sentDate: minute(3), message: 'three' },
+      { id: 'm1', sentDate: minute(1), message: 'one, edited' }
+    ];
+    mock.timers.tick(150);
+    await settle();
+
+    assert.equal(state.polls.length, 2);
+    assert.deepEqual(events, [
+      ['message.edited', 'm1'],
+      ['message.deleted', 'm2'],
+      ['message.created', 'm3']
+    ]);
+
+    // Nothing changed: no new events
+    mock.timers.tick(100);
+    await settle();
+    assert.equal(state.polls.length, 3);
+    assert.equal(events.length, 3);
+  } finally {
+    watcher.stop();
+    mock.timers.reset();
+  }
+});
+
+test('the interval backs off while idle or failing and resets on activity', async () => {
+  mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  const state = server();
+  const client = new SwitchXCore('token', { fetch: state.fetch, retry: false });
+  const watcher = client.watch({ channelIds: ['c1'], communityId: 'com1', interval: 100, maxInterval: 300 });
+  const { events, errors } = record(watcher);
+
+  try {
+    await settle();
+    state.fail = true;
+    for (const wait of [150, 225, 300, 300]) {
+      mock.timers.tick(wait - 1);
+      await settle();
+      const polls = state.polls.length;
+      mock.timers.tick(1);
+      await settle();
+      assert.equal(state.polls.length, polls + 1, `next poll after ${wait}ms`);
+    }
+
+    assert.equal(errors.length, 4);
+    assert.match(errors[0].message, /503|Server/i);
+
+    state.fail = false;
+    state.messages = [{ id: 'm1', sentDate: minute(1), message: 'hi' }];
+    mock.timers.tick(300);
+    await settle();
+    assert.deepEqual(events, [['message.created', 'm1']]);
+
+    // Activity brings the interval back to 100ms
+    const polls = state.polls.length;
+    mock.timers.tick(100);
+    await settle();
+    assert.equal(state.polls.length, polls + 1);
+  } finally {
+    watcher.stop();
+    mock.timers.reset();
+  }
+});
+
+test('stop() ends polling and leaves no timers running', async () => {
+  const state = server();
+  const client = new SwitchXCore('token', { fetch: state.fetch, retry: false, timeout: 0 });
+  const timers = () => process.getActiveResourcesInfo().filter((resource) => resource === 'Timeout').length;
+  const before = timers();
+
+  const watcher = client.watch({ channelIds: ['c1'], groupIds: ['g1'], communityId: 'com1', interval: 5 });
+  const { errors } = record(watcher);
+  while (state.polls.length < 4) await new Promise((resolve) => setTimeout(resolve, 5));
+
+  watcher.stop();
+  await settle();
+  const polls = state.polls.length;
+
+  assert.equal(watcher.running, false);
+  assert.equal(timers(), before);
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assert.equal(state.polls.length, polls);
+  assert.deepEqual(errors, []);
+});
+
+test('custom transports feed listeners until stopped', async () => {
+  let context;
+  const watcher = new SwitchXWatcher((received) => { context = received; }, [{ type: 'group', id: 'g1', communityId: 'com1' }]);
+  const { events, errors } = record(watcher);
+
+  watcher.start();
+  await tick();
+  context.emit({ type: 'message.created', conversation: context.conversations[0], message: { id: 'm1' } });
+  context.error(new Error('socket closed'));
+
+  watcher.stop();
+  assert.equal(context.signal.aborted, true);
+  context.emit({ type: 'message.created', conversation: context.conversations[0], message: { id: 'm2' } });
+
+  assert.deepEqual(events, [['message.created', 'm1']]);
+  assert.deepEqual(errors.map((error) => error.message), ['socket closed']);
+});
+
+test('watch() needs at least one conversation', () => {
+  const client = new SwitchXCore('token', { fetch: async () => Response.json({}) });
+
+  assert.throws(() => client.watch({ communityId: 'com1' }), /at least one channel or group/);
+});
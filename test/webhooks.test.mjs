@@ -0,0 +1,208 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { SwitchXServer, SwitchXWebhookError, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../dist/server/index.mjs';
+
+const SECRET = 'bot-token';
+const now = () => Math.floor(Date.now() / 1000);
+
+function webhooks(options) {
+  const client = new SwitchXServer(SECRET, { fetch: async () => Response.json({}) });
+  return client.webhooks(options);
+}
+
+// Signs independently of the SDK so a broken sign() can't hide a broken verify()
+function signed(payload, { timestamp = now(), secret = SECRET } = {}) {
+  const body = typeof payload === 'string' ? payload : JSON.stringify(payload);
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return { body, headers: { [SIGNATURE_HEADER]: `sha256=${digest}`, [TIMESTAMP_HEADER]: String(timestamp) } };
+}
+
+const joined = (id = 'evt_1') => ({
+  id,
+  type: 'member.joined',
+  data: { userId: 42, communityId: 'com1', referredByUserId: null }
+});
+
+test('a valid signature is accepted and the event reaches its listeners', async () => {
+  const hooks = webhooks();
+  const events = [];
+  hooks.on('member.joined', (event) => { events.push(event); });
+  const timestamp = now();
+  const { body, headers } = signed(joined(), { timestamp });
+
+  const result = await hooks.handle(body, headers);
+
+  assert.deepEqual(result, { status: 200, body: { received: true } });
+  assert.deepEqual(events, [{
+    id: 'evt_1',
+    type: 'member.joined',
+    timestamp: timestamp * 1000,
+    data: { userId: '42', communityId: 'com1' }
+  }]);
+});
+
+test('sign() produces headers verify() accepts', () => {
+  const hooks = webhooks({ secret: 'other-secret' });
+  const body = JSON.stringify(joined());
+
+  assert.equal(hooks.verify(body, hooks.sign(body)).type, 'member.joined');
+  assert.deepEqual(hooks.sign(body, 1700000000), signed(body, { timestamp: 1700000000, secret: 'other-secret' }).headers);
+});
+
+test('a tampered body is rejected with 401', async () => {
+  const hooks = webhooks();
+  let called = false;
+  hooks.on('member.joined', () => { called = true; });
+  const { body, headers } = signed(joined());
+
+  const result = await hooks.handle(body.replace('com1', 'com2'), headers);
+
+  assert.equal(result.status, 401);
+  assert.deepEqual(result.body, { received: false, error: 'Webhook signature does not match' });
+  assert.equal(called, false);
+});
+
+test('bad or missing signature headers are rejected with 401', () => {
+  const hooks = webhooks();
+  const { body, headers } = signed(joined());
+  const reject = (changed) => assert.throws(
+    () => hooks.verify(body, { ...headers, ...changed }),
+    (error) => error instanceof SwitchXWebhookError && error.status === 401
+  );
+
+  reject({ [SIGNATURE_HEADER]: 'sha256=' });
+  reject({ [SIGNATURE_HEADER]: 'sha256=not-hex' });
+  reject({ [SIGNATURE_HEADER]: headers[SIGNATURE_HEADER].slice(0, -2) });
+  reject({ [SIGNATURE_HEADER]: signed(joined(), { secret: 'wrong' }).headers[SIGNATURE_HEADER] });
+  reject({ [SIGNATURE_HEADER]: undefined });
+  reject({ [TIMESTAMP_HEADER]: undefined });
+  // The signature covers the timestamp
+  reject({ [TIMESTAMP_HEADER]: String(now() - 1) });
+});
+
+test('timestamps outside the 300s tolerance are rejected', () => {
+  const hooks = webhooks();
+  const verify = (timestamp) => {
+    const { body, headers } = signed(joined(), { timestamp });
+    return hooks.verify(body, headers);
+  };
+
+  assert.ok(verify(now() - 290));
+  assert.ok(verify(now() + 290));
+  for (const timestamp of [now() - 301, now() + 301, 'soon']) {
+    assert.throws(() => verify(timestamp), { name: 'SwitchXWebhookError', message: 'Webhook timestamp outside the allowed window', status: 401 });
+  }
+
+  const strict = webhooks({ tolerance: 10 });
+  const { body, headers } = signed(joined(), { timestamp: now() - 11 });
+  assert.throws(() => strict.verify(body, headers), SwitchXWebhookError);
+});
+
+test('a replayed event ID is acknowledged without running listeners again', async () => {
+  const hooks = webhooks();
+  let calls = 0;
+  hooks.on('member.joined', () => { calls++; });
+
+  const first = signed(joined('evt_9'));
+  // Same event re-sent later: fresh timestamp and signature
+  const replay = signed(joined('evt_9'), { timestamp: now() + 1 });
+
+  assert.deepEqual((await hooks.handle(first.body, first.headers)).body, { received: true });
+  assert.deepEqual((await hooks.handle(replay.body, replay.headers)).body, { received: true, duplicate: true });
+  assert.deepEqual((await hooks.handle(first.body, first.headers)).body, { received: true, duplicate: true });
+  assert.equal(calls, 1);
+
+  const other = signed(joined('evt_10'));
+  await hooks.handle(other.body, other.headers);
+  assert.equal(calls, 2);
+});
+
+test('a failing listener answers 500 and lets the retry through', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const hooks = webhooks();
+  let attempts = 0;
+  hooks.on('member.joined', () => {
+    if (++attempts === 1) throw new Error('database down');
+  });
+  const { body, headers } = signed(joined());
+
+  assert.equal((await hooks.handle(body, headers)).status, 500);
+  assert.deepEqual(await hooks.handle(body, headers), { status: 200, body: { received: true } });
+  assert.equal(attempts, 2);
+});
+
+test('unknown event types are acknowledged and ignored', async () => {
+  const hooks = webhooks();
+  const { body, headers } = signed({ id: 'evt_2', type: 'poll.closed', data: { anything: true } });
+
+  assert.equal(hooks.verify(body, headers), null);
+  assert.deepEqual(await hooks.handle(body, headers), { status: 200, body: { received: true, ignored: true } });
+});
+
+test('malformed payloads are rejected with 400 naming the bad field', async () => {
+  const hooks = webhooks();
+  const verifyError = (payload) => {
+    const { body, headers } = signed(payload);
+    try {
+      hooks.verify(body, headers);
+    } catch (error) {
+      return error;
+    }
+    assert.fail('expected verify to throw');
+  };
+
+  const missing = verifyError({ id: 'evt_3', type: 'reaction.added', data: { messageId: 'm1', userId: 'u1' } });
+  assert.equal(missing.status, 400);
+  assert.equal(missing.message, 'Invalid webhook payload: data.emoji should be string, got undefined');
+
+  const untyped = verifyError({ id: 'evt_4', data: {} });
+  assert.equal(untyped.message, 'Invalid webhook payload: type should be string, got undefined');
+
+  const garbage = verifyError('{not json');
+  assert.equal(garbage.status, 400);
+  assert.match(garbage.message, /^Invalid webhook payload: /);
+});
+
+test('fetchHandler answers with a JSON Response', async () => {
+  const hooks = webhooks();
+  const handler = hooks.fetchHandler();
+  const { body, headers } = signed(joined());
+
+  const ok = await handler(new Request('http://bot.test/switchx', { method: 'POST', body, headers }));
+  assert.equal(ok.status, 200);
+  assert.equal(ok.headers.get('content-type'), 'application/json');
+  assert.deepEqual(await ok.json(), { received: true });
+
+  const forged = await handler(new Request('http://bot.test/switchx', { method: 'POST', body: `${body} `, headers }));
+  assert.equal(forged.status, 401);
+});
+
+test('nodeHandler reads the raw stream or an express.raw() body', async () => {
+  const hooks = webhooks();
+  const handler = hooks.nodeHandler();
+  const response = () => {
+    const res = { headers: {}, setHeader: (name, value) => { res.headers[name] = value; } };
+    res.end = (text) => { res.text = text; };
+    return res;
+  };
+
+  const streamed = signed(joined('evt_5'));
+  const req = Object.assign(Readable.from([Buffer.from(streamed.body)]), { headers: streamed.headers });
+  const res = response();
+  await handler(req, res);
+  assert.equal(res.statusCode, 200);
+  assert.equal(res.headers['Content-Type'], 'application/json');
+  assert.deepEqual(JSON.parse(res.text), { received: true });
+
+  const raw = signed(joined('evt_6'));
+  const rawRes = response();
+  await handler({ headers: raw.headers, body: Buffer.from(raw.body) }, rawRes);
+  assert.equal(rawRes.statusCode, 200);
+
+  let passed;
+  await handler({ headers: raw.headers, body: { parsed: true } }, response(), (error) => { passed = error; });
+  assert.ok(passed instanceof SwitchXWebhookError);
+  assert.match(passed.message, /express\.raw\(\)/);
+});